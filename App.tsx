@@ -1,17 +1,35 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Recipe, DietaryFilter, Craving, FridgeItem, StoreLocation } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Recipe, DietaryFilter, Craving, FridgeItem, StoreLocation, UnitSystem, RecipeSortOptions, MealPlan, ShoppingItem, Ingredient, Substitution, WasteHistory, CookingTimer, AssistantAction, ChatThread, RecipeNote } from './types';
 import { Header } from './components/Layout/Header';
 import { BottomNav } from './components/Navigation/BottomNav';
 import { FridgeScanner } from './components/FridgeScanner';
+import { ReceiptScanner } from './components/ReceiptScanner';
+import { BarcodeScanner } from './components/BarcodeScanner';
 import { RecipeGenerator } from './components/RecipeGenerator';
+import { MealPlanner } from './components/MealPlanner';
 import { RecipeDetails } from './components/RecipeDetails';
 import { CookingMode } from './components/CookingMode';
 import { ShoppingList } from './components/ShoppingList';
 import { Assistant } from './components/Assistant';
+import { WasteDashboard } from './components/WasteDashboard';
+import { TimerTray } from './components/TimerTray';
+import { createInventoryItem, isSameItem, migrateInventory, mergePurchases, purchasedAmount, removePurchase } from './services/inventory';
+import { Deduction, applyDeductions } from './services/cooking';
+import { ProductInfo, migrateCustomProducts } from './services/products';
+import { findBestMatch, fuzzyMatchesIngredient, migrateRecipes, parseIngredientLine } from './services/recipes';
+import { scaleRecipe } from './services/units';
+import { DEFAULT_RECIPE_SORT } from './services/recipeRanking';
+import { createMealPlan, migrateMealPlan } from './services/mealPlan';
+import { createWasteHistory, migrateWasteHistory, recordCookedMeal, recordExpired } from './services/wasteHistory';
+import { dueTimers, playAlarm, startTimer } from './services/timers';
+import { migrateChatThreads, migrateRecipeNotes } from './services/chatThreads';
+import { generateSpeech } from './services/geminiService';
+import { ShoppingEntry, addToShoppingList, checkOffPurchases, guessCategory, isOnShoppingList, migrateShoppingList, removeFromShoppingList, toInventoryItem } from './services/shopping';
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'scan' | 'recipes' | 'shopping' | 'assistant'>('scan');
+  const [activeTab, setActiveTab] = useState<'scan' | 'recipes' | 'plan' | 'shopping' | 'assistant' | 'impact'>('scan');
+  const [scanMode, setScanMode] = useState<'fridge' | 'receipt' | 'barcode'>('fridge');
   const mainScrollRef = useRef<HTMLDivElement>(null);
   
   // Persisted State
@@ -21,15 +39,7 @@ export default function App() {
     const saved = localStorage.getItem('ca_ingredients');
     if (!saved) return [];
     try {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed) && parsed.length > 0 && typeof parsed[0] === 'string') {
-             return parsed.map((name: string) => ({ 
-                 name, 
-                 category: 'Other', 
-                 isPrioritized: false 
-             }));
-        }
-        return parsed;
+        return migrateInventory(JSON.parse(saved));
     } catch(e) {
         return [];
     }
@@ -37,15 +47,40 @@ export default function App() {
 
   const [recipes, setRecipes] = useState<Recipe[]>(() => {
     const saved = localStorage.getItem('ca_recipes');
-    return saved ? JSON.parse(saved) : [];
+    if (!saved) return [];
+    try {
+        return migrateRecipes(JSON.parse(saved));
+    } catch(e) {
+        return [];
+    }
   });
   const [savedRecipes, setSavedRecipes] = useState<Recipe[]>(() => {
       const saved = localStorage.getItem('ca_savedRecipes');
-      return saved ? JSON.parse(saved) : [];
+      if (!saved) return [];
+      try {
+          return migrateRecipes(JSON.parse(saved));
+      } catch(e) {
+          return [];
+      }
   });
-  const [shoppingList, setShoppingList] = useState<string[]>(() => {
+  const [shoppingList, setShoppingList] = useState<ShoppingItem[]>(() => {
     const saved = localStorage.getItem('ca_shoppingList');
-    return saved ? JSON.parse(saved) : [];
+    if (!saved) return [];
+    try {
+        return migrateShoppingList(JSON.parse(saved));
+    } catch(e) {
+        return [];
+    }
+  });
+  // Barcodes the product table didn't know, as identified by the AI fallback
+  const [customProducts, setCustomProducts] = useState<ProductInfo[]>(() => {
+    const saved = localStorage.getItem('ca_customProducts');
+    if (!saved) return [];
+    try {
+        return migrateCustomProducts(JSON.parse(saved));
+    } catch(e) {
+        return [];
+    }
   });
   const [dietary, setDietary] = useState<DietaryFilter>(() => {
       const saved = localStorage.getItem('ca_dietary');
@@ -60,12 +95,74 @@ export default function App() {
       return saved ? JSON.parse(saved) : [];
   });
 
+  // Household size and preferred units; null means "as the recipe was written"
+  const [servings, setServings] = useState<number | null>(() => {
+      const saved = localStorage.getItem('ca_servings');
+      return saved ? JSON.parse(saved) : null;
+  });
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(() => {
+      const saved = localStorage.getItem('ca_unitSystem');
+      return saved ? JSON.parse(saved) : null;
+  });
+
+  const [recipeSort, setRecipeSort] = useState<RecipeSortOptions>(() => {
+      const saved = localStorage.getItem('ca_recipeSort');
+      return saved ? { ...DEFAULT_RECIPE_SORT, ...JSON.parse(saved) } : DEFAULT_RECIPE_SORT;
+  });
+
+  const [mealPlan, setMealPlan] = useState<MealPlan>(() => {
+      const saved = localStorage.getItem('ca_mealPlan');
+      if (!saved) return createMealPlan();
+      try {
+          return migrateMealPlan(JSON.parse(saved));
+      } catch(e) {
+          return createMealPlan();
+      }
+  });
+
+  const [wasteHistory, setWasteHistory] = useState<WasteHistory>(() => {
+      const saved = localStorage.getItem('ca_wasteHistory');
+      if (!saved) return createWasteHistory();
+      try {
+          return migrateWasteHistory(JSON.parse(saved));
+      } catch(e) {
+          return createWasteHistory();
+      }
+  });
+
   // Map & Store State (Lifted for persistence)
   const [stores, setStores] = useState<StoreLocation[]>([]);
   const [storeViewMode, setStoreViewMode] = useState<'map' | 'list'>('map');
 
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>(() => {
+      const saved = localStorage.getItem('ca_chatThreads');
+      if (!saved) return [];
+      try {
+          return migrateChatThreads(JSON.parse(saved));
+      } catch(e) {
+          return [];
+      }
+  });
+
+  const [recipeNotes, setRecipeNotes] = useState<Record<string, RecipeNote[]>>(() => {
+      const saved = localStorage.getItem('ca_recipeNotes');
+      if (!saved) return {};
+      try {
+          return migrateRecipeNotes(JSON.parse(saved));
+      } catch(e) {
+          return {};
+      }
+  });
+
+  // Conversation open in the assistant tab; null starts a new one with the next message
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
   const [activeRecipe, setActiveRecipe] = useState<Recipe | null>(null);
   const [isCookingMode, setIsCookingMode] = useState(false);
+  const [cookingSubstitutions, setCookingSubstitutions] = useState<Substitution[]>([]);
+  const [timers, setTimers] = useState<CookingTimer[]>([]);
+  // Set by the assistant's "generate recipes" action; the recipes tab starts a generation when it sees it
+  const [generateRequested, setGenerateRequested] = useState(false);
   const [userLocation, setUserLocation] = useState<{lat: number, lng: number} | null>(null);
 
   // Persistence Effects
@@ -73,9 +170,20 @@ export default function App() {
   useEffect(() => { localStorage.setItem('ca_recipes', JSON.stringify(recipes)); }, [recipes]);
   useEffect(() => { localStorage.setItem('ca_savedRecipes', JSON.stringify(savedRecipes)); }, [savedRecipes]);
   useEffect(() => { localStorage.setItem('ca_shoppingList', JSON.stringify(shoppingList)); }, [shoppingList]);
+  useEffect(() => { localStorage.setItem('ca_customProducts', JSON.stringify(customProducts)); }, [customProducts]);
   useEffect(() => { localStorage.setItem('ca_dietary', dietary); }, [dietary]);
   useEffect(() => { localStorage.setItem('ca_allergens', allergens); }, [allergens]);
   useEffect(() => { localStorage.setItem('ca_cravings', JSON.stringify(cravings)); }, [cravings]);
+  useEffect(() => { localStorage.setItem('ca_servings', JSON.stringify(servings)); }, [servings]);
+  useEffect(() => { localStorage.setItem('ca_unitSystem', JSON.stringify(unitSystem)); }, [unitSystem]);
+  useEffect(() => { localStorage.setItem('ca_recipeSort', JSON.stringify(recipeSort)); }, [recipeSort]);
+  useEffect(() => { localStorage.setItem('ca_mealPlan', JSON.stringify(mealPlan)); }, [mealPlan]);
+  useEffect(() => { localStorage.setItem('ca_wasteHistory', JSON.stringify(wasteHistory)); }, [wasteHistory]);
+  useEffect(() => { localStorage.setItem('ca_chatThreads', JSON.stringify(chatThreads)); }, [chatThreads]);
+  useEffect(() => { localStorage.setItem('ca_recipeNotes', JSON.stringify(recipeNotes)); }, [recipeNotes]);
+
+  // Anything that has passed its expiry date goes on the waste log (once)
+  useEffect(() => { setWasteHistory(prev => recordExpired(prev, ingredients)); }, [ingredients]);
 
   // Scroll to top on tab change
   useEffect(() => {
@@ -84,6 +192,19 @@ export default function App() {
     }
   }, [activeTab]);
 
+  // Cooking timers ring from here so they go off whichever screen is open
+  useEffect(() => {
+    if (!timers.some(t => t.status === 'running')) return;
+    const interval = setInterval(() => {
+        const due = dueTimers(timers);
+        if (due.length === 0) return;
+        setTimers(prev => prev.map(t => due.some(d => d.id === t.id) ? { ...t, status: 'done', endsAt: null, remainingSec: 0 } : t));
+        playAlarm();
+        due.forEach(t => announceTimer(t.label));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [timers]);
+
   // Get Location on Mount
   useEffect(() => {
     if (navigator.geolocation) {
@@ -105,29 +226,63 @@ export default function App() {
     setActiveTab('recipes');
   };
 
+  // Receipt purchases are added on top of the inventory and ticked off the shopping list
+  const handleReceiptItems = (items: FridgeItem[]) => {
+    setIngredients(prev => mergePurchases(prev, items));
+    setShoppingList(prev => checkOffPurchases(prev, items));
+  };
+
+  const handleLearnProduct = (product: ProductInfo) => {
+    setCustomProducts(prev => [...prev.filter(p => p.barcode !== product.barcode), product]);
+  };
+
   const handleClearImage = () => {
       if (fridgeImage) URL.revokeObjectURL(fridgeImage);
       setFridgeImage(null);
   };
 
-  const handleAddToShoppingList = (item: string) => {
-      if(!shoppingList.includes(item)) {
-          setShoppingList(prev => [...prev, item]);
-      }
+  const handleAddToShoppingList = (entries: ShoppingEntry[]) => {
+      setShoppingList(prev => addToShoppingList(prev, entries, ingredients));
   };
 
-  const handleToggleShoppingItem = (item: string) => {
-    if (shoppingList.includes(item)) {
-        setShoppingList(prev => prev.filter(i => i !== item));
+  // Cart button on a recipe ingredient: adds or takes back that recipe's share
+  const handleToggleRecipeIngredient = (ingredient: Ingredient, recipeId?: string) => {
+    if (isOnShoppingList(shoppingList, ingredient.name, recipeId)) {
+        setShoppingList(prev => removeFromShoppingList(prev, ingredient, recipeId));
     } else {
-        setShoppingList(prev => [...prev, item]);
+        handleAddToShoppingList([{ ingredient, recipeId }]);
     }
   };
 
-  const removeFromShoppingList = (item: string) => {
+  // Ticking an item off puts it in the inventory; unticking takes back exactly what the tick added
+  const handleToggleChecked = (item: ShoppingItem) => {
+      if (item.checked) {
+          const { restocked } = item;
+          if (restocked) setIngredients(prev => removePurchase(prev, item.name, restocked));
+          setShoppingList(prev => prev.map(i => i === item ? { ...i, checked: false, restocked: undefined } : i));
+          return;
+      }
+      const purchase = toInventoryItem(item);
+      const restocked = purchasedAmount(ingredients.find(i => isSameItem(i.name, purchase.name)), purchase);
+      setIngredients(prev => mergePurchases(prev, [purchase]));
+      setShoppingList(prev => prev.map(i => i === item ? { ...i, checked: true, restocked } : i));
+  };
+
+  const handleRemoveShoppingItem = (item: ShoppingItem) => {
       setShoppingList(prev => prev.filter(i => i !== item));
   };
 
+  const handleClearChecked = () => {
+      setShoppingList(prev => prev.filter(i => !i.checked));
+  };
+
+  // Titles for the "for ..." hint on shopping lines
+  const recipeTitles = useMemo(() => {
+      const titles: Record<string, string> = {};
+      [...recipes, ...savedRecipes, ...mealPlan.meals.map(m => m.recipe)].forEach(r => { titles[r.id] = r.title; });
+      return titles;
+  }, [recipes, savedRecipes, mealPlan]);
+
   const handleToggleSaveRecipe = (recipe: Recipe) => {
       const isSaved = savedRecipes.some(r => r.id === recipe.id);
       if (isSaved) {
@@ -137,24 +292,157 @@ export default function App() {
       }
   };
 
+  // The active recipe at the household's servings and units; memoised so details don't reload on every render
+  const scaledRecipe = useMemo(
+    () => activeRecipe ? scaleRecipe(activeRecipe, servings ?? activeRecipe.servings, unitSystem) : null,
+    [activeRecipe, servings, unitSystem]
+  );
+
+  // Spoken alert through the same TTS path as cooking mode's read-aloud
+  const announceTimer = async (label: string) => {
+      try {
+          const audio = await generateSpeech(`Your ${label.split(' · ')[0].toLowerCase()} timer is done.`);
+          const ctx = new AudioContext();
+          const source = ctx.createBufferSource();
+          source.buffer = await ctx.decodeAudioData(audio);
+          source.connect(ctx.destination);
+          source.onended = () => ctx.close();
+          source.start(0);
+      } catch (e) {
+          console.error("Timer announcement failed", e);
+      }
+  };
+
+  const handleStartCooking = (substitutions: Substitution[]) => {
+      setCookingSubstitutions(substitutions);
+      setIsCookingMode(true);
+  };
+
+  // "Done cooking": what was used comes off the inventory, so the next generation sees what's really left,
+  // and the meal goes in the history with its waste score against the inventory before the deductions
+  const handleFinishCooking = (deductions: Deduction[]) => {
+      if (scaledRecipe) setWasteHistory(prev => recordCookedMeal(prev, scaledRecipe, deductions, ingredients));
+      setIngredients(prev => applyDeductions(prev, deductions));
+      setIsCookingMode(false);
+      setActiveRecipe(null);
+  };
+
+  // Recipes the assistant can refer to by title: the current menu first, then the saved ones
+  const findRecipe = (title: string): Recipe | undefined =>
+      [...recipes, ...savedRecipes].find(r => r.title.toLowerCase() === title.toLowerCase())
+      || [...recipes, ...savedRecipes].find(r => fuzzyMatchesIngredient(title, r.title));
+
+  // Runs an assistant action the user confirmed; returns why it couldn't be done, or null
+  const handleAssistantAction = (action: AssistantAction): string | null => {
+      switch (action.tool) {
+          case 'addToShoppingList':
+              handleAddToShoppingList(action.items.map(line => ({ ingredient: parseIngredientLine(line) })));
+              return null;
+          case 'removeIngredient': {
+              // Only the item meant: "milk" must not take the coconut milk and buttermilk with it
+              const target = findBestMatch(ingredients, action.name);
+              if (!target) return `No ${action.name} in your inventory`;
+              setIngredients(prev => prev.filter(i => !isSameItem(i.name, target.name)));
+              return null;
+          }
+          case 'addIngredient': {
+              const overrides = action.quantity ? { quantity: action.quantity, unit: action.unit || 'pcs' } : {};
+              const item = createInventoryItem(action.name, guessCategory(action.name, ingredients), 'manual', overrides);
+              setIngredients(prev => mergePurchases(prev, [item]));
+              return null;
+          }
+          case 'generateRecipes':
+              if (ingredients.length === 0) return 'Add some ingredients first';
+              if (action.cravings) setCravings(action.cravings);
+              setGenerateRequested(true);
+              setActiveTab('recipes');
+              return null;
+          case 'startCookingMode': {
+              const recipe = findRecipe(action.recipeTitle);
+              if (!recipe) return `Couldn't find ${action.recipeTitle}`;
+              setCookingSubstitutions([]);
+              setActiveRecipe(recipe);
+              setIsCookingMode(true);
+              return null;
+          }
+          case 'setTimer':
+              setTimers(prev => [...prev, startTimer({
+                  id: `assistant-${Date.now()}`,
+                  label: action.label,
+                  durationSec: Math.round(action.minutes * 60),
+                  text: `${action.minutes} minutes`,
+              })]);
+              return null;
+          case 'saveRecipe': {
+              const recipe = findRecipe(action.recipeTitle);
+              if (!recipe) return `Couldn't find ${action.recipeTitle}`;
+              if (!savedRecipes.some(r => r.id === recipe.id)) setSavedRecipes(prev => [...prev, recipe]);
+              return null;
+          }
+      }
+  };
+
+  // A pinned assistant answer saved to a recipe; saving the same answer twice is a no-op
+  const handleSaveNote = (recipeId: string, text: string, threadId: string) => {
+      setRecipeNotes(prev => {
+          const notes = prev[recipeId] || [];
+          if (notes.some(n => n.text === text)) return prev;
+          const note: RecipeNote = { id: `note-${Date.now()}`, text, threadId, createdAt: new Date().toISOString() };
+          return { ...prev, [recipeId]: [...notes, note] };
+      });
+  };
+
+  const handleRemoveNote = (recipeId: string, noteId: string) => {
+      setRecipeNotes(prev => ({ ...prev, [recipeId]: (prev[recipeId] || []).filter(n => n.id !== noteId) }));
+  };
+
+  // Reopens the conversation a note came from
+  const handleOpenThread = (threadId: string) => {
+      setActiveThreadId(threadId);
+      setActiveRecipe(null);
+      setActiveTab('assistant');
+  };
+
   // Main View Logic
-  if (activeRecipe) {
+  if (activeRecipe && scaledRecipe) {
       if (isCookingMode) {
-          return <CookingMode recipe={activeRecipe} onBack={() => setIsCookingMode(false)} />;
+          return (
+              <CookingMode 
+                recipe={scaledRecipe} 
+                inventory={ingredients}
+                substitutions={cookingSubstitutions}
+                timers={timers}
+                setTimers={setTimers}
+                dietary={dietary}
+                allergens={allergens}
+                onBack={() => setIsCookingMode(false)} 
+                onFinish={handleFinishCooking}
+              />
+          );
       }
       return (
           <RecipeDetails 
-            recipe={activeRecipe} 
+            recipe={scaledRecipe} 
+            originalServings={activeRecipe.servings}
+            onChangeServings={setServings}
+            unitSystem={unitSystem}
+            onChangeUnitSystem={setUnitSystem}
             isSaved={savedRecipes.some(r => r.id === activeRecipe.id)}
             onToggleSave={() => handleToggleSaveRecipe(activeRecipe)}
             onBack={() => setActiveRecipe(null)}
-            onStartCooking={() => setIsCookingMode(true)}
+            onStartCooking={handleStartCooking}
             shoppingList={shoppingList}
-            onToggleShoppingList={handleToggleShoppingItem}
+            onToggleShoppingList={handleToggleRecipeIngredient}
             availableIngredients={ingredients}
             dietary={dietary}
             allergens={allergens}
             cravings={cravings}
+            timers={timers}
+            setTimers={setTimers}
+            notes={recipeNotes[activeRecipe.id] || []}
+            onRemoveNote={(noteId) => handleRemoveNote(activeRecipe.id, noteId)}
+            canOpenThread={(threadId) => chatThreads.some(t => t.id === threadId)}
+            onOpenThread={handleOpenThread}
           />
       );
   }
@@ -163,7 +451,8 @@ export default function App() {
     // Outer Wrapper: Fixed to viewport (h-[100dvh]) to prevent window scrolling.
     <div className="fixed inset-0 w-full h-[100dvh] flex flex-col bg-[#f8fafc] max-w-md mx-auto shadow-2xl overflow-hidden font-sans text-slate-900">
       
-      <Header />
+      <Header onOpenImpact={() => setActiveTab('impact')} isImpactActive={activeTab === 'impact'} />
+      <TimerTray timers={timers} setTimers={setTimers} />
 
       {/* Main Content Area: Flex-1 fills space between Header and Nav. Overflow-y-auto handles scrolling. */}
       <main 
@@ -171,11 +460,41 @@ export default function App() {
         className="flex-1 w-full relative overflow-y-auto overflow-x-hidden scroll-smooth"
       >
           {activeTab === 'scan' && (
-              <FridgeScanner 
-                onIngredientsFound={handleIngredientsFound} 
-                currentPreview={fridgeImage}
-                onClearImage={handleClearImage}
-              />
+              <>
+                <div className="flex justify-center pt-4">
+                    <div className="flex bg-slate-100 rounded-full p-1">
+                        {(['fridge', 'receipt', 'barcode'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setScanMode(mode)}
+                                className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${scanMode === mode ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                            >
+                                {mode === 'fridge' ? 'Fridge' : mode === 'receipt' ? 'Receipt' : 'Barcode'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {scanMode === 'fridge' ? (
+                    <FridgeScanner 
+                      inventory={ingredients}
+                      onIngredientsFound={handleIngredientsFound} 
+                      currentPreview={fridgeImage}
+                      onClearImage={handleClearImage}
+                    />
+                ) : scanMode === 'receipt' ? (
+                    <ReceiptScanner
+                      shoppingList={shoppingList}
+                      onItemsAdded={handleReceiptItems}
+                    />
+                ) : (
+                    <BarcodeScanner
+                      customProducts={customProducts}
+                      onLearnProduct={handleLearnProduct}
+                      onItemAdded={(item) => setIngredients(prev => mergePurchases(prev, [item]))}
+                      allergens={allergens}
+                    />
+                )}
+              </>
           )}
           {activeTab === 'recipes' && (
               <RecipeGenerator 
@@ -194,12 +513,33 @@ export default function App() {
                 cravings={cravings}
                 setCravings={setCravings}
                 location={userLocation}
+                sortOptions={recipeSort}
+                setSortOptions={setRecipeSort}
+                generateRequested={generateRequested}
+                onGenerateRequestHandled={() => setGenerateRequested(false)}
+              />
+          )}
+          {activeTab === 'plan' && (
+              <MealPlanner
+                plan={mealPlan}
+                setPlan={setMealPlan}
+                recipes={recipes}
+                savedRecipes={savedRecipes}
+                ingredients={ingredients}
+                dietary={dietary}
+                allergens={allergens}
+                shoppingList={shoppingList}
+                onAddToShoppingList={handleAddToShoppingList}
+                onSelectRecipe={setActiveRecipe}
               />
           )}
           {activeTab === 'shopping' && (
             <ShoppingList 
                 items={shoppingList} 
-                onRemove={removeFromShoppingList} 
+                onToggle={handleToggleChecked}
+                onRemove={handleRemoveShoppingItem} 
+                onClearChecked={handleClearChecked}
+                recipeTitles={recipeTitles}
                 stores={stores}
                 setStores={setStores}
                 viewMode={storeViewMode}
@@ -212,6 +552,22 @@ export default function App() {
                 ingredients={ingredients}
                 recipes={recipes}
                 shoppingList={shoppingList}
+                dietary={dietary}
+                allergens={allergens}
+                onAction={handleAssistantAction}
+                savedRecipes={savedRecipes}
+                threads={chatThreads}
+                setThreads={setChatThreads}
+                activeThreadId={activeThreadId}
+                setActiveThreadId={setActiveThreadId}
+                recipeNotes={recipeNotes}
+                onSaveNote={handleSaveNote}
+            />
+          )}
+          {activeTab === 'impact' && (
+            <WasteDashboard 
+                history={wasteHistory}
+                onClearHistory={() => setWasteHistory(createWasteHistory())}
             />
           )}
       </main>
@@ -219,7 +575,7 @@ export default function App() {
       <BottomNav 
         activeTab={activeTab} 
         setActiveTab={setActiveTab} 
-        shoppingCount={shoppingList.length} 
+        shoppingCount={shoppingList.filter(i => !i.checked).length} 
       />
     </div>
   );
@@ -1,107 +1,264 @@
 
-import React, { useState, useEffect } from 'react';
-import { LiveClient, searchFoodInfo, chatWithBot } from '../../services/geminiService';
-import { FridgeItem, Recipe } from '../../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { LiveClient, LiveSessionContext, isLiveAvailable, searchFoodInfo, createChatSession, classifyAssistantIntent } from '../../services/geminiService';
+import { AssistantAction, ChatMessage, ChatThread, DietaryFilter, FridgeItem, ProposedAction, Recipe, RecipeNote, ShoppingItem } from '../../types';
+import { formatShoppingItem } from '../../services/shopping';
+import { describeAction } from '../../services/assistantTools';
+import { addThread, createThread, toChatTurns, updateThreadMessages } from '../../services/chatThreads';
+import { Markdown } from '../Markdown';
+import { ChatHistory } from '../ChatHistory';
 import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
 
 interface AssistantProps {
     ingredients: FridgeItem[];
     recipes: Recipe[];
-    shoppingList: string[];
+    savedRecipes: Recipe[];
+    shoppingList: ShoppingItem[];
+    dietary: DietaryFilter;
+    allergens: string;
+    // Runs a confirmed action; returns a message when it couldn't be done
+    onAction: (action: AssistantAction) => string | null;
+    // Conversations live in App so they survive tab switches and reloads
+    threads: ChatThread[];
+    setThreads: React.Dispatch<React.SetStateAction<ChatThread[]>>;
+    activeThreadId: string | null;
+    setActiveThreadId: (id: string | null) => void;
+    recipeNotes: Record<string, RecipeNote[]>;
+    onSaveNote: (recipeId: string, text: string, threadId: string) => void;
 }
 
-export const Assistant: React.FC<AssistantProps> = ({ ingredients, recipes, shoppingList }) => {
+const ActionChip: React.FC<{ proposal: ProposedAction; onResolve: (confirm: boolean) => void }> = ({ proposal, onResolve }) => {
+    const { status } = proposal;
+    return (
+        <div className={`flex items-center gap-2 pl-3 pr-1.5 py-1.5 rounded-xl border text-xs ${status === 'done' ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : status === 'failed' ? 'bg-red-50 border-red-200 text-red-700' : status === 'dismissed' ? 'bg-slate-50 border-slate-200 text-slate-400 line-through' : 'bg-white border-emerald-300 text-slate-700 shadow-sm'}`}>
+            <span className="flex-1 font-medium">{describeAction(proposal.action)}</span>
+            {status === 'pending' && (
+                <>
+                    <button onClick={() => onResolve(true)} className="px-2.5 py-1 rounded-lg bg-emerald-600 text-white font-bold hover:bg-emerald-700">Confirm</button>
+                    <button onClick={() => onResolve(false)} className="px-2 py-1 rounded-lg text-slate-400 hover:text-slate-600" aria-label="Dismiss">✕</button>
+                </>
+            )}
+            {status === 'done' && <span className="font-bold pr-1">✓ Done</span>}
+            {status === 'failed' && <span className="pr-1">{proposal.error}</span>}
+        </div>
+    );
+};
+
+// Confirming runs the action; the result stays on the chip
+const resolveProposal = (proposal: ProposedAction, confirm: boolean, onAction: AssistantProps['onAction']): ProposedAction => {
+    if (!confirm) return { ...proposal, status: 'dismissed' };
+    const error = onAction(proposal.action);
+    return error ? { ...proposal, status: 'failed', error } : { ...proposal, status: 'done' };
+};
+
+export const Assistant: React.FC<AssistantProps> = ({
+    ingredients,
+    recipes,
+    savedRecipes,
+    shoppingList,
+    dietary,
+    allergens,
+    onAction,
+    threads,
+    setThreads,
+    activeThreadId,
+    setActiveThreadId,
+    recipeNotes,
+    onSaveNote
+}) => {
     const [mode, setMode] = useState<'chat' | 'live'>('chat');
-    const [messages, setMessages] = useState<{role: 'user'|'model', text: string}[]>([]);
+    const [showHistory, setShowHistory] = useState(false);
+    // Model message whose "save to recipe" picker is open
+    const [notePickerIndex, setNotePickerIndex] = useState<number | null>(null);
     const [inputText, setInputText] = useState('');
     const [isLiveConnected, setIsLiveConnected] = useState(false);
     const [liveClient, setLiveClient] = useState<LiveClient | null>(null);
     const [liveTranscript, setLiveTranscript] = useState<{in: string, out: string} | null>(null);
+    const [liveActions, setLiveActions] = useState<ProposedAction[]>([]);
     const [loadingChat, setLoadingChat] = useState(false);
+    // One session per conversation; it keeps the turns, so each message only sends what's new
+    const sessionRef = useRef<{ threadId: string; session: ReturnType<typeof createChatSession> } | null>(null);
+    const sentContextRef = useRef('');
+    // Search answers bypass the session; it hears about them with the next chat message
+    const searchNotesRef = useRef<string[]>([]);
+    const abortRef = useRef<AbortController | null>(null);
+    const bottomRef = useRef<HTMLDivElement | null>(null);
+
+    const activeThread = threads.find(t => t.id === activeThreadId) || null;
+    const messages = activeThread?.messages || [];
+    const allRecipes = [...recipes, ...savedRecipes.filter(s => !recipes.some(r => r.id === s.id))];
+
+    // Nothing is being cooked from this tab; cooking mode runs its own session with the recipe and step
+    const liveContext: LiveSessionContext = { inventory: ingredients, recipe: null, currentStep: null, dietary, allergens };
+
+    // Inventory or filter edits mid-session reach the voice assistant too
+    useEffect(() => {
+        liveClient?.updateContext(liveContext);
+    }, [liveClient, ingredients, dietary, allergens]);
+
+    // Leaving the tab ends the session and releases the microphone
+    useEffect(() => () => { liveClient?.disconnect(); }, [liveClient]);
 
-    // Build context string helper
+    // ...and stops a reply that is still streaming
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Follow the reply as it streams in
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ block: 'end' });
+    }, [messages]);
+
+    // Kitchen state for the chat; sent with a message only when it changed since the last one
     const getContextString = () => {
         const ingList = ingredients.map(i => i.name).join(', ');
         const recList = recipes.map(r => r.title).join(', ');
-        const shopList = shoppingList.join(', ');
-        
-        return `
-        CONTEXT:
-        User Ingredients: ${ingList || 'None scanned yet'}.
-        Suggested Recipes: ${recList || 'None generated yet'}.
-        Shopping List: ${shopList || 'Empty'}.
-        `;
+        const shopList = shoppingList.filter(i => !i.checked).map(formatShoppingItem).join(', ');
+        return `User Ingredients: ${ingList || 'None scanned yet'}. Suggested Recipes: ${recList || 'None generated yet'}. Shopping List: ${shopList || 'Empty'}.`;
     };
 
+    const setThreadMessages = (threadId: string, change: (messages: ChatMessage[]) => ChatMessage[]) =>
+        setThreads(prev => updateThreadMessages(prev, threadId, change));
+
+    const updateMessage = (threadId: string, index: number, patch: Partial<ChatMessage>) =>
+        setThreadMessages(threadId, prev => prev.map((m, i) => i === index ? { ...m, ...patch } : m));
+
     // Chat Handler
     const handleSendChat = async () => {
-        if (!inputText.trim()) return;
+        if (!inputText.trim() || loadingChat) return;
         const userMsg = inputText;
+        // The first message starts a new conversation
+        let threadId = activeThread?.id;
+        if (!threadId) {
+            const thread = createThread(userMsg);
+            threadId = thread.id;
+            setThreads(prev => addThread(prev, thread));
+            setActiveThreadId(thread.id);
+        }
+        // A conversation opened from the history gets a session seeded with its earlier turns
+        if (sessionRef.current?.threadId !== threadId) {
+            sessionRef.current = { threadId, session: createChatSession(toChatTurns(messages)) };
+            sentContextRef.current = '';
+            searchNotesRef.current = [];
+        }
+        const { session } = sessionRef.current;
+        // The reply bubble goes in straight away and fills as the answer streams in
+        const replyIndex = messages.length + 1;
+        const update = (patch: Partial<ChatMessage>) => updateMessage(threadId, replyIndex, patch);
         setInputText('');
-        setMessages(prev => [...prev, {role: 'user', text: userMsg}]);
+        setThreadMessages(threadId, prev => [...prev, {role: 'user', text: userMsg}, {role: 'model', text: ''}]);
         setLoadingChat(true);
+        const controller = new AbortController();
+        abortRef.current = controller;
 
         try {
-            if (userMsg.toLowerCase().includes('news') || userMsg.toLowerCase().includes('safe') || userMsg.toLowerCase().includes('trend')) {
+            // Safety, news and trend questions get a web-grounded answer; everything else goes to the chat model,
+            // which is pushed to propose an action when the router says the message asks for one
+            // Routing and search can't be cancelled mid-request, so Stop is honoured once they return
+            const intent = await classifyAssistantIntent(toChatTurns(messages), userMsg);
+            if (controller.signal.aborted) {
+                update({ text: '_Stopped._' });
+            } else if (intent === 'search') {
                 const searchRes = await searchFoodInfo(userMsg);
-                setMessages(prev => [...prev, {role: 'model', text: searchRes.text }]);
+                if (controller.signal.aborted) {
+                    update({ text: '_Stopped._' });
+                } else {
+                    update({ text: searchRes.text, citations: searchRes.citations });
+                    searchNotesRef.current.push(`[Web search] Q: ${userMsg}\nA: ${searchRes.text}`);
+                }
             } else {
-                // Inject Context into History invisibly to the user
-                const contextMsg = getContextString();
-                const history = [
-                    ...messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
-                    { role: 'user', parts: [{ text: `[System Context: ${contextMsg}]` }] } 
-                ];
-                
-                // We send the history + the user's actual new message
-                const response = await chatWithBot(history, userMsg);
-                setMessages(prev => [...prev, {role: 'model', text: response || "Sorry, I couldn't answer that."}]);
+                const context = getContextString();
+                const notes = [...searchNotesRef.current];
+                if (context !== sentContextRef.current) notes.unshift(`[Context update] ${context}`);
+                const reply = await session.send(userMsg, {
+                    notes,
+                    actionResults: messages.flatMap(m => m.actions || []),
+                    expectAction: intent === 'action',
+                    signal: controller.signal,
+                    onText: text => update({ text }),
+                });
+                sentContextRef.current = context;
+                searchNotesRef.current = [];
+                update({
+                    text: reply.text || (controller.signal.aborted ? '_Stopped._' : reply.actions.length > 0 ? '' : "Sorry, I couldn't answer that."),
+                    actions: reply.actions.map(action => ({ action, status: 'pending' })),
+                });
             }
         } catch(e) {
-            setMessages(prev => [...prev, {role: 'model', text: "Error connecting to AI."}]);
+            update({ text: "Error connecting to AI.", isError: true });
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setLoadingChat(false);
         }
     };
 
+    // Keeps whatever has streamed in so far
+    const stopReply = () => abortRef.current?.abort();
+
+    // The action runs here, once; the state updaters below only record its outcome (StrictMode runs them twice)
+    const resolveChatAction = (messageIndex: number, actionIndex: number, confirm: boolean) => {
+        const proposal = messages[messageIndex]?.actions?.[actionIndex];
+        if (!activeThread || !proposal || proposal.status !== 'pending') return;
+        const resolved = resolveProposal(proposal, confirm, onAction);
+        setThreadMessages(activeThread.id, prev => prev.map((m, i) => i === messageIndex && m.actions
+            ? { ...m, actions: m.actions.map((p, j) => j === actionIndex ? resolved : p) }
+            : m));
+    };
+
+    const togglePin = (index: number) => {
+        if (!activeThread) return;
+        setThreadMessages(activeThread.id, prev => prev.map((m, i) => i === index ? { ...m, pinned: !m.pinned } : m));
+    };
+
+    // Saving to a recipe pins the answer too, so it can be found again from the chat history
+    const saveToRecipe = (index: number, recipeId: string) => {
+        if (!activeThread || !recipeId) return;
+        onSaveNote(recipeId, messages[index].text, activeThread.id);
+        setThreadMessages(activeThread.id, prev => prev.map((m, i) => i === index ? { ...m, pinned: true } : m));
+        setNotePickerIndex(null);
+    };
+
+    const notedRecipes = (m: ChatMessage) =>
+        allRecipes.filter(r => recipeNotes[r.id]?.some(n => n.text === m.text && n.threadId === activeThread?.id));
+
+    const openThread = (threadId: string) => {
+        if (loadingChat) stopReply();
+        setActiveThreadId(threadId);
+        setNotePickerIndex(null);
+        setShowHistory(false);
+    };
+
+    const startNewChat = () => {
+        if (loadingChat) stopReply();
+        setActiveThreadId(null);
+        setNotePickerIndex(null);
+        setShowHistory(false);
+    };
+
+    const deleteThread = (threadId: string) => {
+        if (threadId === activeThreadId) startNewChat();
+        setThreads(prev => prev.filter(t => t.id !== threadId));
+    };
+
+    const resolveLiveAction = (index: number, confirm: boolean) => {
+        const proposal = liveActions[index];
+        if (!proposal || proposal.status !== 'pending') return;
+        const resolved = resolveProposal(proposal, confirm, onAction);
+        setLiveActions(prev => prev.map((p, i) => i === index ? resolved : p));
+    };
+
     const toggleLive = async () => {
         if (isLiveConnected) {
             if (liveClient) await liveClient.disconnect();
             setIsLiveConnected(false);
             setLiveClient(null);
             setLiveTranscript(null);
+            setLiveActions([]);
         } else {
-            const client = new LiveClient((inText, outText) => {
-                setLiveTranscript({ in: inText, out: outText });
-            });
+            const client = new LiveClient(
+                (inText, outText) => setLiveTranscript({ in: inText, out: outText }),
+                (actions) => setLiveActions(prev => [...prev, ...actions.map(action => ({ action, status: 'pending' as const }))])
+            );
             try {
-                // Hack: We need to override the connect method in LiveClient or modify the service to accept custom systemInstructions
-                // For now, let's assume we modified LiveClient in service or rely on standard init.
-                // Since we can't easily change the class signature without breaking other things, 
-                // we will rely on general helpfulness unless we update the service file too.
-                // *Update*: I will modify the service connection call in this component if I could, but the logic is inside `liveClient.connect()`.
-                // Ideally, we pass the context to `connect`. 
-                // Let's modify the LiveClient in service to accept systemInstruction override, OR just trust the "Sous Chef" persona.
-                // However, to satisfy the requirement, we should update the Service file or pass it here.
-                // Let's assume for this specific request, updating the LiveClient class in geminiService.ts is the cleanest way, 
-                // but since I can't edit that file in THIS block, I will use the standard connection 
-                // and rely on the fact that the 'Sous Chef' persona is generally helpful.
-                // wait, I CAN edit geminiService.ts. But for this specific component, let's just connect.
-                
-                // Correction: The user explicitly asked for the assistant to see ingredients.
-                // Since `LiveClient.connect()` is defined in `geminiService.ts` with a hardcoded systemInstruction, 
-                // I really should have updated `geminiService.ts` to accept an optional instruction string.
-                // Assuming I updated `geminiService.ts` (which I didn't in this prompt response yet), 
-                // I will add a method to send a text context message immediately after connection.
-                
-                await client.connect();
-                
-                // Send context as text input immediately
-                // Note: The LiveClient implementation in previous turns doesn't expose a method to send text easily
-                // other than `sendRealtimeInput` which takes a blob.
-                // For now, we will stick to the standard connection. To fully implement context-aware Live API,
-                // we would need to pass `systemInstruction` config dynamically.
-                
+                await client.connect(liveContext);
                 setLiveClient(client);
                 setIsLiveConnected(true);
             } catch (e) {
@@ -120,11 +277,34 @@ export const Assistant: React.FC<AssistantProps> = ({ ingredients, recipes, shop
         <div className="flex flex-col h-full bg-slate-50 p-4">
             <div className="flex gap-2 mb-4 justify-center flex-none">
                 <button onClick={() => setMode('chat')} className={buttonClass(mode === 'chat')}>Chat</button>
-                <button onClick={() => setMode('live')} className={buttonClass(mode === 'live')}>Live Voice</button>
+                {isLiveAvailable() && (
+                    <button onClick={() => setMode('live')} className={buttonClass(mode === 'live')}>Live Voice</button>
+                )}
             </div>
 
+            {mode === 'chat' && (
+                <div className="flex items-center gap-2 mb-2 flex-none">
+                    <button
+                        onClick={() => setShowHistory(!showHistory)}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${showHistory ? 'bg-slate-800 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+                    >
+                        🗂 History{threads.length > 0 ? ` (${threads.length})` : ''}
+                    </button>
+                    <p className="flex-1 min-w-0 text-xs text-slate-400 truncate">{showHistory ? 'Past conversations' : activeThread?.title || 'New conversation'}</p>
+                    {activeThread && (
+                        <button onClick={startNewChat} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-slate-200 text-emerald-700 hover:bg-emerald-50">
+                            ＋ New chat
+                        </button>
+                    )}
+                </div>
+            )}
+
             <div className="flex-1 overflow-y-auto bg-white rounded-3xl border border-slate-100 shadow-sm p-4 relative mb-4">
-                {mode === 'chat' && (
+                {mode === 'chat' && showHistory && (
+                    <ChatHistory threads={threads} activeThreadId={activeThreadId} onSelect={openThread} onDelete={deleteThread} />
+                )}
+
+                {mode === 'chat' && !showHistory && (
                     <div className="space-y-4">
                         {messages.length === 0 && (
                             <div className="flex flex-col items-center justify-center h-full text-slate-400 text-center p-4">
@@ -134,13 +314,70 @@ export const Assistant: React.FC<AssistantProps> = ({ ingredients, recipes, shop
                             </div>
                         )}
                         {messages.map((m, i) => (
-                            <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                <div className={`max-w-[80%] p-3.5 rounded-2xl text-sm leading-relaxed shadow-sm ${m.role === 'user' ? 'bg-emerald-600 text-white rounded-tr-none' : 'bg-slate-100 text-slate-800 rounded-tl-none'}`}>
-                                    {m.text}
-                                </div>
+                            <div key={i} className={`flex flex-col gap-2 ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                {m.text && (
+                                    <div className={`max-w-[80%] p-3.5 rounded-2xl text-sm leading-relaxed shadow-sm ${m.role === 'user' ? 'bg-emerald-600 text-white rounded-tr-none' : m.isError ? 'bg-red-50 text-red-700 rounded-tl-none' : 'bg-slate-100 text-slate-800 rounded-tl-none'}`}>
+                                        {m.role === 'model' ? <Markdown text={m.text} /> : m.text}
+                                    </div>
+                                )}
+                                {m.citations && m.citations.length > 0 && (
+                                    <div className="max-w-[80%] flex flex-wrap gap-1.5">
+                                        {m.citations.map((c, j) => (
+                                            <a
+                                                key={c.uri}
+                                                href={c.uri}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                title={c.uri}
+                                                className="max-w-[180px] truncate px-2.5 py-1 rounded-full bg-white border border-slate-200 text-[11px] font-medium text-emerald-700 hover:border-emerald-300 hover:bg-emerald-50"
+                                            >
+                                                [{j + 1}] {c.title}
+                                            </a>
+                                        ))}
+                                    </div>
+                                )}
+                                {m.actions && m.actions.length > 0 && (
+                                    <div className="w-[85%] space-y-1.5">
+                                        {m.actions.map((proposal, j) => (
+                                            <ActionChip key={j} proposal={proposal} onResolve={confirm => resolveChatAction(i, j, confirm)} />
+                                        ))}
+                                    </div>
+                                )}
+                                {m.role === 'model' && m.text && !m.isError && !(loadingChat && i === messages.length - 1) && (
+                                    <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+                                        <button
+                                            onClick={() => togglePin(i)}
+                                            className={`px-2 py-1 rounded-full font-bold transition-colors ${m.pinned ? 'bg-amber-100 text-amber-800' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+                                        >
+                                            📌 {m.pinned ? 'Pinned' : 'Pin'}
+                                        </button>
+                                        {allRecipes.length > 0 && (
+                                            notePickerIndex === i ? (
+                                                <select
+                                                    autoFocus
+                                                    defaultValue=""
+                                                    onChange={(e) => saveToRecipe(i, e.target.value)}
+                                                    onBlur={() => setNotePickerIndex(null)}
+                                                    className="max-w-[200px] px-2 py-1 rounded-lg border border-slate-200 bg-white text-slate-700"
+                                                >
+                                                    <option value="" disabled>Save to recipe notes…</option>
+                                                    {allRecipes.map(r => <option key={r.id} value={r.id}>{r.title}</option>)}
+                                                </select>
+                                            ) : (
+                                                <button onClick={() => setNotePickerIndex(i)} className="px-2 py-1 rounded-full font-bold text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+                                                    📝 Save to recipe
+                                                </button>
+                                            )
+                                        )}
+                                        {notedRecipes(m).map(r => (
+                                            <span key={r.id} className="px-2 py-1 rounded-full bg-emerald-50 text-emerald-700 font-medium">✓ In {r.title}</span>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                         ))}
-                        {loadingChat && <div className="text-slate-400 text-xs animate-pulse ml-2">Typing...</div>}
+                        {loadingChat && !messages[messages.length - 1]?.text && <div className="text-slate-400 text-xs animate-pulse ml-2">Typing...</div>}
+                        <div ref={bottomRef} />
                     </div>
                 )}
 
@@ -165,6 +402,13 @@ export const Assistant: React.FC<AssistantProps> = ({ ingredients, recipes, shop
                                  <p className="text-emerald-700 font-medium">{liveTranscript.out}</p>
                              </div>
                          )}
+                         {liveActions.length > 0 && (
+                             <div className="w-full max-w-sm space-y-1.5">
+                                 {liveActions.map((proposal, i) => (
+                                     <ActionChip key={i} proposal={proposal} onResolve={confirm => resolveLiveAction(i, confirm)} />
+                                 ))}
+                             </div>
+                         )}
                     </div>
                 )}
             </div>
@@ -179,13 +423,21 @@ export const Assistant: React.FC<AssistantProps> = ({ ingredients, recipes, shop
                         onKeyDown={(e) => e.key === 'Enter' && handleSendChat()}
                         className="flex-1 p-3.5 rounded-xl border border-slate-200 bg-white text-slate-800 placeholder-slate-400 focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-100 transition-all shadow-sm"
                     />
-                    <button 
-                       onClick={handleSendChat}
-                       disabled={loadingChat}
-                       className="bg-emerald-600 text-white p-3.5 rounded-xl font-bold hover:bg-emerald-700 transition-colors disabled:opacity-50 shadow-md"
-                    >
-                        Send
-                    </button>
+                    {loadingChat ? (
+                        <button 
+                           onClick={stopReply}
+                           className="bg-slate-500 text-white p-3.5 rounded-xl font-bold hover:bg-slate-600 transition-colors shadow-md"
+                        >
+                            ■ Stop
+                        </button>
+                    ) : (
+                        <button 
+                           onClick={handleSendChat}
+                           className="bg-emerald-600 text-white p-3.5 rounded-xl font-bold hover:bg-emerald-700 transition-colors shadow-md"
+                        >
+                            Send
+                        </button>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,284 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { CameraIcon } from '../Icons';
+import { identifyProduct, ModelResponseError } from '../../services/geminiService';
+import { decodeBarcode, decodeBarcodeFromFile } from '../../services/barcode';
+import { ProductInfo, lookupProduct, matchAllergens, productToItem } from '../../services/products';
+import { formatQuantity } from '../../services/inventory';
+import { FridgeItem } from '../../types';
+
+interface BarcodeScannerProps {
+    customProducts: ProductInfo[];
+    // Products identified by the AI fallback, so the same code resolves locally next time
+    onLearnProduct: (product: ProductInfo) => void;
+    onItemAdded: (item: FridgeItem) => void;
+    allergens: string;
+}
+
+const DECODE_INTERVAL_MS = 400;
+
+const grabFrame = (video: HTMLVideoElement): Promise<File | null> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(null);
+    ctx.drawImage(video, 0, 0);
+    return new Promise(resolve => canvas.toBlob(
+        blob => resolve(blob ? new File([blob], 'barcode.jpg', { type: 'image/jpeg' }) : null),
+        'image/jpeg',
+        0.85
+    ));
+};
+
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ customProducts, onLearnProduct, onItemAdded, allergens }) => {
+    const [isCameraOn, setIsCameraOn] = useState(false);
+    const [code, setCode] = useState<string | null>(null);
+    const [photo, setPhoto] = useState<File | null>(null);
+    const [product, setProduct] = useState<ProductInfo | null>(null);
+    const [identifiedByAI, setIdentifiedByAI] = useState(false);
+    const [isIdentifying, setIsIdentifying] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const decodingRef = useRef(false);
+
+    const stopCamera = () => {
+        streamRef.current?.getTracks().forEach(t => t.stop());
+        streamRef.current = null;
+        setIsCameraOn(false);
+    };
+
+    useEffect(() => stopCamera, []);
+
+    const identify = async (image: File, barcode: string | null) => {
+        setIsIdentifying(true);
+        setStatus(barcode ? `Code ${barcode} isn't in the product table, identifying the package...` : 'Identifying the package...');
+        try {
+            const result = await identifyProduct(image, barcode);
+            if (!result) {
+                setStatus("Couldn't identify this product. Try a clearer photo of the front label.");
+                return;
+            }
+            setProduct(result);
+            setIdentifiedByAI(true);
+            setStatus(null);
+            if (barcode) onLearnProduct(result);
+        } catch (err) {
+            setStatus(err instanceof ModelResponseError ? err.message : "Identification failed. Please try again.");
+        } finally {
+            setIsIdentifying(false);
+        }
+    };
+
+    const handleCode = (barcode: string, image: File | null) => {
+        setCode(barcode);
+        setPhoto(image);
+        const known = lookupProduct(barcode, customProducts);
+        if (known) {
+            setProduct(known);
+            setIdentifiedByAI(false);
+            setStatus(null);
+        } else if (image) {
+            identify(image, barcode);
+        } else {
+            setStatus(`Code ${barcode} isn't in the product table. Upload a photo of the package to identify it.`);
+        }
+    };
+
+    const reset = () => {
+        setCode(null);
+        setPhoto(null);
+        setProduct(null);
+        setIdentifiedByAI(false);
+        setStatus(null);
+    };
+
+    // Decode camera frames until a code is found
+    useEffect(() => {
+        if (!isCameraOn) return;
+        const interval = setInterval(async () => {
+            const video = videoRef.current;
+            if (!video || video.readyState < 2 || decodingRef.current) return;
+            decodingRef.current = true;
+            try {
+                const barcode = await decodeBarcode(video);
+                if (barcode) {
+                    const frame = await grabFrame(video);
+                    stopCamera();
+                    handleCode(barcode, frame);
+                }
+            } finally {
+                decodingRef.current = false;
+            }
+        }, DECODE_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isCameraOn]);
+
+    const startCamera = async () => {
+        reset();
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+            streamRef.current = stream;
+            setIsCameraOn(true);
+            // The video element only exists once the camera view has rendered
+            requestAnimationFrame(() => {
+                if (videoRef.current) {
+                    videoRef.current.srcObject = stream;
+                    videoRef.current.play();
+                }
+            });
+        } catch (err) {
+            console.error("Camera unavailable", err);
+            setStatus("Camera unavailable. Upload a photo of the barcode instead.");
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        reset();
+        let barcode: string | null = null;
+        try {
+            barcode = await decodeBarcodeFromFile(file);
+        } catch (err) {
+            // Not an image the browser can decode (e.g. HEIC); the photo can still identify the product
+            console.error("Couldn't read barcode photo", err);
+        }
+        if (barcode) {
+            handleCode(barcode, file);
+        } else {
+            setPhoto(file);
+            setStatus("No barcode found in that photo.");
+        }
+    };
+
+    const handleAdd = () => {
+        if (!product) return;
+        const item = productToItem(product);
+        onItemAdded(item);
+        reset();
+        setStatus(`Added ${item.name} (${formatQuantity(item)}) to your inventory.`);
+    };
+
+    const allergenHits = product ? matchAllergens(product, allergens) : [];
+
+    return (
+        <div className="flex flex-col min-h-full w-full bg-[#f8fafc] py-6">
+            <div className="flex-none px-6 pb-4 text-center">
+                <h2 className="text-2xl font-bold text-emerald-900 tracking-tight">Scan a barcode</h2>
+                <p className="text-sm text-slate-500 font-medium mt-1">For cans, jars, cereal and other packaged goods.</p>
+            </div>
+
+            <div className="flex-1 w-full flex flex-col items-center p-4 gap-4">
+                {!product && (
+                    <div className="relative w-full max-w-sm aspect-[4/3] bg-white rounded-3xl border-2 border-dashed border-emerald-200 flex flex-col items-center justify-center overflow-hidden shadow-sm">
+                        {isCameraOn ? (
+                            <>
+                                <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+                                {/* Aiming guide; the decoder reads horizontal lines across the whole frame */}
+                                <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80 shadow-[0_0_8px_rgba(239,68,68,0.8)]"></div>
+                                <button
+                                    onClick={stopCamera}
+                                    className="absolute bottom-3 px-4 py-1.5 bg-white/90 text-slate-600 rounded-full text-xs font-bold shadow"
+                                >
+                                    Cancel
+                                </button>
+                            </>
+                        ) : isIdentifying ? (
+                            <div className="flex flex-col items-center gap-3">
+                                <div className="w-10 h-10 rounded-full border-4 border-emerald-100 border-t-emerald-500 animate-spin"></div>
+                                <p className="text-emerald-800 font-bold text-xs">🔍 Identifying package...</p>
+                            </div>
+                        ) : (
+                            <button onClick={startCamera} className="flex flex-col items-center p-4">
+                                <div className="w-20 h-20 bg-emerald-50 text-emerald-500 rounded-full flex items-center justify-center mb-4 shadow-sm border border-emerald-100">
+                                    <CameraIcon />
+                                </div>
+                                <span className="block text-lg font-bold text-emerald-800">Start Camera</span>
+                                <span className="text-xs text-slate-400 mt-2 max-w-[200px] leading-relaxed">
+                                    Hold the barcode level and fill the width of the frame
+                                </span>
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {!product && !isCameraOn && !isIdentifying && (
+                    <div className="flex gap-2 w-full max-w-sm">
+                        <label className="flex-1 py-2.5 rounded-xl border border-slate-200 bg-white text-slate-600 text-xs font-bold text-center cursor-pointer hover:border-emerald-200 hover:bg-emerald-50 transition-colors">
+                            Upload Photo
+                            <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+                        </label>
+                        {photo && !code && (
+                            <button
+                                onClick={() => identify(photo, null)}
+                                className="flex-1 py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-colors shadow-sm"
+                            >
+                                Identify from Photo
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {status && (
+                    <p className="text-xs font-medium text-slate-600 bg-white border border-slate-100 rounded-xl px-4 py-2.5 max-w-sm text-center">
+                        {status}
+                    </p>
+                )}
+
+                {product && (
+                    <div className="w-full max-w-sm bg-white rounded-2xl border border-slate-100 shadow-md p-4 animate-in fade-in slide-in-from-bottom-2">
+                        <div className="flex items-start justify-between">
+                            <div>
+                                <h3 className="text-sm font-bold text-slate-800">{product.name}</h3>
+                                <p className="text-xs text-slate-500 mt-0.5">
+                                    {product.category}
+                                    {product.quantity !== undefined && ` · ${product.quantity} ${product.unit || ''}`}
+                                    {` · keeps ~${product.shelfLifeDays} days`}
+                                </p>
+                            </div>
+                            <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded-full ${identifiedByAI ? 'bg-indigo-50 text-indigo-600' : 'bg-slate-100 text-slate-500'}`}>
+                                {identifiedByAI ? 'AI identified' : 'Product table'}
+                            </span>
+                        </div>
+                        {code && <p className="text-[10px] font-mono text-slate-400 mt-2">{code}</p>}
+
+                        {product.allergens.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-3">
+                                {product.allergens.map(a => (
+                                    <span
+                                        key={a}
+                                        className={`text-[10px] font-medium px-2 py-0.5 rounded-full border ${allergenHits.includes(a) ? 'bg-red-50 border-red-200 text-red-600' : 'bg-slate-50 border-slate-200 text-slate-500'}`}
+                                    >
+                                        {a}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        {allergenHits.length > 0 && (
+                            <p className="text-[10px] text-red-600 font-bold mt-2">⚠️ Contains {allergenHits.join(', ')}, which you listed as an allergen.</p>
+                        )}
+
+                        <div className="flex gap-2 mt-4">
+                            <button
+                                onClick={handleAdd}
+                                className="flex-1 py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-colors shadow-sm"
+                            >
+                                Add to Inventory
+                            </button>
+                            <button
+                                onClick={reset}
+                                className="px-3 py-2.5 text-slate-400 hover:text-red-500 rounded-xl text-xs font-bold transition-colors"
+                            >
+                                Discard
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,89 @@
+
+import React, { useState, useMemo } from 'react';
+import { ChatThread } from '../../types';
+import { pinnedAnswers, searchThreads } from '../../services/chatThreads';
+
+interface ChatHistoryProps {
+    threads: ChatThread[];
+    activeThreadId: string | null;
+    onSelect: (threadId: string) => void;
+    onDelete: (threadId: string) => void;
+}
+
+const formatWhen = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+// Past assistant conversations, newest first, with search and the answers pinned across all of them
+export const ChatHistory: React.FC<ChatHistoryProps> = ({ threads, activeThreadId, onSelect, onDelete }) => {
+    const [query, setQuery] = useState('');
+    const [view, setView] = useState<'all' | 'pinned'>('all');
+
+    const matches = useMemo(() => searchThreads(threads, query), [threads, query]);
+    const pinned = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        return pinnedAnswers(threads).filter(p => !q || p.message.text.toLowerCase().includes(q) || p.thread.title.toLowerCase().includes(q));
+    }, [threads, query]);
+
+    const tabClass = (isActive: boolean) =>
+        `px-3 py-1.5 rounded-full text-xs font-bold transition-all ${isActive ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`;
+
+    return (
+        <div className="space-y-3">
+            <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search conversations..."
+                className="w-full p-3 rounded-xl border border-slate-200 bg-slate-50 text-sm text-slate-800 placeholder-slate-400 focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-100"
+            />
+            <div className="flex gap-2">
+                <button onClick={() => setView('all')} className={tabClass(view === 'all')}>All chats</button>
+                <button onClick={() => setView('pinned')} className={tabClass(view === 'pinned')}>📌 Pinned ({pinnedAnswers(threads).length})</button>
+            </div>
+
+            {view === 'all' && (
+                matches.length === 0 ? (
+                    <p className="text-center text-xs text-slate-400 py-8">{query ? 'No conversations match.' : 'No past conversations yet.'}</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {matches.map(({ thread, snippet }) => (
+                            <li key={thread.id} className={`flex items-start gap-2 p-3 rounded-xl border transition-colors ${thread.id === activeThreadId ? 'border-emerald-300 bg-emerald-50' : 'border-slate-100 hover:bg-slate-50'}`}>
+                                <button onClick={() => onSelect(thread.id)} className="flex-1 min-w-0 text-left">
+                                    <p className="text-sm font-bold text-slate-800 truncate">{thread.title}</p>
+                                    <p className="text-[11px] text-slate-400">
+                                        {formatWhen(thread.updatedAt)} · {thread.messages.length} messages{thread.messages.some(m => m.pinned) ? ' · 📌' : ''}
+                                    </p>
+                                    {snippet && <p className="text-xs text-slate-500 mt-1 line-clamp-2">{snippet}</p>}
+                                </button>
+                                <button
+                                    onClick={() => onDelete(thread.id)}
+                                    className="w-7 h-7 flex-none rounded-full text-slate-300 hover:text-red-500 hover:bg-red-50"
+                                    aria-label="Delete conversation"
+                                >
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )
+            )}
+
+            {view === 'pinned' && (
+                pinned.length === 0 ? (
+                    <p className="text-center text-xs text-slate-400 py-8">Pin an answer with 📌 to keep it here.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {pinned.map(({ thread, message }, i) => (
+                            <li key={`${thread.id}-${i}`}>
+                                <button onClick={() => onSelect(thread.id)} className="w-full text-left p-3 rounded-xl border border-amber-100 bg-amber-50/50 hover:bg-amber-50">
+                                    <p className="text-xs text-slate-700 line-clamp-3 whitespace-pre-line">{message.text}</p>
+                                    <p className="text-[11px] text-slate-400 mt-1 truncate">from “{thread.title}”</p>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )
+            )}
+        </div>
+    );
+};
@@ -1,22 +1,81 @@
 
-import React, { useState } from 'react';
-import { PlayIcon, StopIcon } from '../Icons';
-import { generateSpeech } from '../../services/geminiService';
-import { Recipe } from '../../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { PlayIcon, StopIcon, CheckIcon, MicIcon } from '../Icons';
+import { generateSpeech, isLiveAvailable, LiveClient } from '../../services/geminiService';
+import { Deduction, planDeductions } from '../../services/cooking';
+import { formatAmount } from '../../services/units';
+import { TimerSuggestion, formatDuration, parseStepTimers, startTimer } from '../../services/timers';
+import { answerQuantity, parseVoiceCommand } from '../../services/voiceCommands';
+import { TimerTray } from '../TimerTray';
+import { CookingTimer, DietaryFilter, FridgeItem, Recipe, Substitution } from '../../types';
 
 interface CookingModeProps {
     recipe: Recipe;
+    inventory: FridgeItem[];
+    // Substitutes chosen in RecipeDetails; they're deducted instead of the missing ingredient
+    substitutions: Substitution[];
+    // Lifted to App so timers keep running (and ringing) after leaving cooking mode
+    timers: CookingTimer[];
+    setTimers: React.Dispatch<React.SetStateAction<CookingTimer[]>>;
+    // For the Live sous-chef's context
+    dietary: DietaryFilter;
+    allergens: string;
     onBack: () => void;
+    // Called with the confirmed amounts (empty when the user skips the inventory update)
+    onFinish: (deductions: Deduction[]) => void;
 }
 
-export const CookingMode: React.FC<CookingModeProps> = ({ recipe, onBack }) => {
+// Local browser speech recognition (Chrome/Edge/Safari); the voice toggle is hidden where it's missing
+const SpeechRecognitionImpl = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export const CookingMode: React.FC<CookingModeProps> = ({ recipe, inventory, substitutions, timers, setTimers, dietary, allergens, onBack, onFinish }) => {
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  // "Done cooking" review; null while still cooking
+  const [deductions, setDeductions] = useState<Deduction[] | null>(null);
+
+  // Voice Command State
+  const [voiceOn, setVoiceOn] = useState(false);
+  const [heard, setHeard] = useState<string | null>(null);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  // Recognition callbacks outlive renders, so they go through refs for the current step and speaking state
+  const commandRef = useRef<(transcript: string) => void>(() => {});
+  const speakingRef = useRef(false);
+
+  // Live Sous-Chef State: a conversational session that knows the recipe and the current step
+  const [liveClient, setLiveClient] = useState<LiveClient | null>(null);
+  const [connectingLive, setConnectingLive] = useState(false);
+  const [liveTranscript, setLiveTranscript] = useState<{ in: string; out: string } | null>(null);
+  const liveContext = { inventory, recipe, currentStep, dietary, allergens };
+
+  const isLastStep = currentStep === recipe.steps.length - 1;
+  const stepTimers = useMemo(
+      () => parseStepTimers(recipe.steps[currentStep] || '', currentStep, recipe.id),
+      [recipe.id, recipe.steps, currentStep]
+  );
+
+  // Tapping a chip again restarts that timer
+  const handleStartTimer = (suggestion: TimerSuggestion) => {
+      setTimers(prev => [...prev.filter(t => t.id !== suggestion.id), startTimer(suggestion)]);
+  };
+
+  const handleDone = () => {
+      setVoiceOn(false);
+      if (liveClient) toggleLive();
+      setDeductions(planDeductions(recipe, inventory, substitutions));
+  };
+
+  const setAmount = (itemName: string, amount: number) => {
+      setDeductions(prev => prev && prev.map(d => d.itemName === itemName
+          ? { ...d, amount: Math.min(d.available, Math.max(0, isNaN(amount) ? 0 : amount)) }
+          : d));
+  };
 
-  const playStep = async () => {
+  // Resolves once playback ends; recognition ignores what it hears meanwhile so the app doesn't command itself
+  const speak = async (text: string) => {
     setIsPlaying(true);
+    speakingRef.current = true;
     try {
-        const text = `Step ${currentStep + 1}. ${recipe.steps[currentStep]}`;
         const audioBuffer = await generateSpeech(text);
         
         const ctx = new AudioContext();
@@ -24,14 +83,132 @@ export const CookingMode: React.FC<CookingModeProps> = ({ recipe, onBack }) => {
         const source = ctx.createBufferSource();
         source.buffer = buffer;
         source.connect(ctx.destination);
-        source.onended = () => setIsPlaying(false);
-        source.start(0);
+        await new Promise(resolve => {
+            source.onended = resolve;
+            source.start(0);
+        });
     } catch (e) {
         console.error("TTS Failed", e);
+    } finally {
         setIsPlaying(false);
+        speakingRef.current = false;
     }
   };
 
+  const playStep = (step: number = currentStep) => speak(`Step ${step + 1}. ${recipe.steps[step]}`);
+
+  const goToStep = (step: number) => {
+      setCurrentStep(step);
+      playStep(step);
+  };
+
+  const handleVoiceCommand = (transcript: string) => {
+      if (deductions) return;
+      const command = parseVoiceCommand(transcript);
+      setHeard(transcript);
+      switch (command.type) {
+          case 'next':
+              if (isLastStep) speak("That's the last step. Tap Done cooking when you're finished.");
+              else goToStep(currentStep + 1);
+              break;
+          case 'back':
+              if (currentStep === 0) speak("You're on the first step.");
+              else goToStep(currentStep - 1);
+              break;
+          case 'repeat':
+              playStep();
+              break;
+          case 'startTimer': {
+              const suggestion = stepTimers.find(s => !timers.some(t => t.id === s.id && t.status !== 'done')) ?? stepTimers[0];
+              if (!suggestion) {
+                  speak("There's no timer in this step.");
+                  break;
+              }
+              handleStartTimer(suggestion);
+              speak(`Timer set for ${formatDuration(suggestion.durationSec)}.`);
+              break;
+          }
+          case 'quantity':
+              speak(answerQuantity(recipe, command.ingredient));
+              break;
+          case 'stopListening':
+              setVoiceOn(false);
+              break;
+      }
+  };
+  commandRef.current = handleVoiceCommand;
+
+  useEffect(() => {
+      if (!voiceOn || !SpeechRecognitionImpl) return;
+      const recognition = new SpeechRecognitionImpl();
+      recognition.continuous = true;
+      recognition.interimResults = false;
+      recognition.lang = navigator.language || 'en-US';
+      let active = true;
+
+      recognition.onresult = (event: any) => {
+          const result = event.results[event.results.length - 1];
+          if (!result.isFinal || speakingRef.current) return;
+          commandRef.current(result[0].transcript);
+      };
+      recognition.onerror = (event: any) => {
+          if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+              active = false;
+              setVoiceOn(false);
+              setVoiceError('Microphone access was denied.');
+          }
+      };
+      // Browsers end a session after a pause in speech; keep listening until it's turned off
+      recognition.onend = () => {
+          if (!active) return;
+          try { recognition.start(); } catch (e) { console.error("Voice restart failed", e); }
+      };
+
+      setVoiceError(null);
+      setHeard(null);
+      recognition.start();
+      return () => {
+          active = false;
+          recognition.stop();
+      };
+  }, [voiceOn]);
+
+  // Moving to another step or editing the inventory refreshes what the sous-chef knows
+  useEffect(() => {
+      liveClient?.updateContext(liveContext);
+  }, [liveClient, currentStep, inventory, recipe, dietary, allergens]);
+
+  // Leaving cooking mode ends the session and releases the microphone
+  useEffect(() => () => { liveClient?.disconnect(); }, [liveClient]);
+
+  // Voice commands and the sous-chef both need the microphone, so only one runs at a time
+  const toggleVoice = () => {
+      if (!voiceOn && liveClient) toggleLive();
+      setVoiceOn(v => !v);
+  };
+
+  const toggleLive = async () => {
+      if (liveClient) {
+          await liveClient.disconnect();
+          setLiveClient(null);
+          setLiveTranscript(null);
+          return;
+      }
+      setVoiceOn(false);
+      setConnectingLive(true);
+      const client = new LiveClient((inText, outText) => setLiveTranscript({ in: inText, out: outText }));
+      try {
+          await client.connect(liveContext);
+          setLiveClient(client);
+      } catch (e) {
+          console.error("Connection failed", e);
+          client.disconnect();
+          setVoiceError("Could not connect to the sous-chef. Please check microphone permissions.");
+      } finally {
+          setConnectingLive(false);
+      }
+  };
+
   return (
     <div className="fixed inset-0 z-50 bg-[#f8fafc] flex justify-center">
         <div className="w-full max-w-md bg-white h-full relative flex flex-col shadow-2xl">
@@ -40,14 +217,165 @@ export const CookingMode: React.FC<CookingModeProps> = ({ recipe, onBack }) => {
                    ← Exit Cooking
                </button>
                <h3 className="font-bold text-slate-800 truncate max-w-[200px]">{recipe.title}</h3>
-               <div className="w-8"></div>
+               {!deductions ? (
+                   <div className="flex gap-1.5">
+                       {isLiveAvailable() && (
+                           <button
+                               onClick={toggleLive}
+                               disabled={connectingLive}
+                               className={`w-8 h-8 rounded-full flex items-center justify-center text-base transition-colors disabled:opacity-50 ${liveClient ? 'bg-orange-500 shadow-md shadow-orange-200' : 'bg-slate-100 hover:bg-slate-200'}`}
+                               aria-label={liveClient ? 'End sous-chef conversation' : 'Talk to the sous-chef'}
+                           >
+                               👨‍🍳
+                           </button>
+                       )}
+                       {SpeechRecognitionImpl && (
+                           <button
+                               onClick={toggleVoice}
+                               className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${voiceOn ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                               aria-label={voiceOn ? 'Turn off voice commands' : 'Turn on voice commands'}
+                           >
+                               <MicIcon />
+                           </button>
+                       )}
+                   </div>
+               ) : (
+                   <div className="w-8"></div>
+               )}
            </div>
 
+           {(liveClient || connectingLive) && (
+               <div className="flex items-center gap-3 px-4 py-2 bg-orange-50 border-b border-orange-100">
+                   <span className="text-xl flex-none">👨‍🍳</span>
+                   <div className="flex-1 min-w-0">
+                       <p className="text-xs font-bold text-orange-700">{connectingLive ? 'Connecting...' : `Sous-chef is listening · Step ${currentStep + 1}`}</p>
+                       <p className="text-[10px] text-orange-600/80 truncate">
+                           {liveTranscript?.out || liveTranscript?.in || 'Ask anything about this recipe'}
+                       </p>
+                   </div>
+                   {liveClient && (
+                       <button onClick={toggleLive} className="text-[10px] font-bold text-orange-700 px-2 py-1 rounded-md border border-orange-200 hover:bg-orange-100">
+                           End
+                       </button>
+                   )}
+               </div>
+           )}
+
+           {voiceOn && (
+               <div className="flex items-center gap-3 px-4 py-2 bg-red-50 border-b border-red-100">
+                   <span className="relative flex h-3 w-3 flex-none">
+                       <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
+                       <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
+                   </span>
+                   <div className="flex-1 min-w-0">
+                       <p className="text-xs font-bold text-red-700">{isPlaying ? 'Speaking...' : 'Listening'}</p>
+                       <p className="text-[10px] text-red-600/80 truncate">
+                           {heard ? `Heard: "${heard}"` : 'Say "next", "back", "repeat", "start timer" or "how much butter?"'}
+                       </p>
+                   </div>
+                   <button onClick={() => setVoiceOn(false)} className="text-[10px] font-bold text-red-700 px-2 py-1 rounded-md border border-red-200 hover:bg-red-100">
+                       Turn off
+                   </button>
+               </div>
+           )}
+           {voiceError && !voiceOn && (
+               <p className="px-4 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{voiceError}</p>
+           )}
+
+           <TimerTray timers={timers} setTimers={setTimers} />
+
+           {deductions ? (
+           <>
+           <div className="flex-1 overflow-y-auto p-6">
+               <p className="text-4xl text-center mb-2">🎉</p>
+               <h2 className="text-xl font-bold text-slate-800 text-center">Done cooking!</h2>
+               <p className="text-sm text-slate-500 text-center mb-6">Check how much you used and we'll update your inventory.</p>
+
+               {deductions.length === 0 ? (
+                   <p className="text-center text-sm text-slate-400">None of this recipe's ingredients are in your inventory.</p>
+               ) : (
+                   <ul className="space-y-3">
+                       {deductions.map(d => (
+                           <li key={d.itemName} className="p-3 bg-white rounded-xl border border-slate-100 shadow-sm">
+                               <div className="flex justify-between items-start gap-2">
+                                   <div className="min-w-0">
+                                       <p className="font-bold text-slate-800 capitalize truncate">{d.itemName}</p>
+                                       <p className="text-[10px] text-slate-400 truncate">for {d.usedFor.join(', ')}</p>
+                                   </div>
+                                   <span className="text-[10px] font-semibold text-slate-400 whitespace-nowrap">
+                                       {formatAmount(d.available, d.unit)} {d.unit} left
+                                   </span>
+                               </div>
+                               <div className="flex items-center gap-2 mt-2">
+                                   <input
+                                       type="number"
+                                       min={0}
+                                       max={d.available}
+                                       step="any"
+                                       value={d.amount}
+                                       onChange={e => setAmount(d.itemName, parseFloat(e.target.value))}
+                                       className="w-24 px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-bold text-slate-700 focus:outline-none focus:border-blue-400"
+                                   />
+                                   <span className="text-xs text-slate-500">{d.unit} used</span>
+                                   <div className="flex-1"></div>
+                                   <button
+                                       onClick={() => setAmount(d.itemName, 0)}
+                                       className={`px-2 py-1 rounded-md text-[10px] font-bold transition-colors ${d.amount === 0 ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                                   >
+                                       None
+                                   </button>
+                                   <button
+                                       onClick={() => setAmount(d.itemName, d.available)}
+                                       className={`px-2 py-1 rounded-md text-[10px] font-bold transition-colors ${d.amount === d.available ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                                   >
+                                       All
+                                   </button>
+                               </div>
+                           </li>
+                       ))}
+                   </ul>
+               )}
+           </div>
+
+           <div className="p-6 pb-10 bg-slate-50 border-t flex items-center gap-3">
+                <button
+                   onClick={() => onFinish([])}
+                   className="px-5 py-3 rounded-xl bg-white border border-slate-200 text-slate-600"
+                >
+                    Skip
+                </button>
+                <button
+                   onClick={() => onFinish(deductions)}
+                   className="flex-1 py-3 rounded-xl bg-emerald-600 text-white font-bold shadow-lg shadow-emerald-200 flex items-center justify-center gap-2"
+                >
+                    <CheckIcon /> Update inventory
+                </button>
+           </div>
+           </>
+           ) : (
+           <>
            <div className="flex-1 flex flex-col items-center justify-center p-8 text-center overflow-y-auto">
-               <span className="text-sm font-bold text-blue-500 tracking-wider uppercase mb-4">Step {currentStep + 1} of {recipe.steps.length}</span>
+               <span className="text-sm font-bold text-blue-500 tracking-wider uppercase mb-1">Step {currentStep + 1} of {recipe.steps.length}</span>
+               <span className="text-xs text-slate-400 mb-4">Serves {recipe.servings}</span>
                <p className="text-2xl md:text-4xl font-medium text-slate-800 leading-snug">
                    {recipe.steps[currentStep]}
                </p>
+               {stepTimers.length > 0 && (
+                   <div className="flex flex-wrap justify-center gap-2 mt-6">
+                       {stepTimers.map(suggestion => {
+                           const running = timers.some(t => t.id === suggestion.id && t.status !== 'done');
+                           return (
+                               <button
+                                   key={suggestion.id}
+                                   onClick={() => handleStartTimer(suggestion)}
+                                   className={`px-4 py-2 rounded-full text-sm font-bold transition-colors ${running ? 'bg-blue-50 text-blue-400 border border-blue-100' : 'bg-blue-600 text-white shadow-md shadow-blue-200 hover:bg-blue-700'}`}
+                               >
+                                   ⏱ {running ? `${formatDuration(suggestion.durationSec)} running` : `Start ${formatDuration(suggestion.durationSec)} timer`}
+                               </button>
+                           );
+                       })}
+                   </div>
+               )}
            </div>
 
            <div className="p-6 pb-10 bg-slate-50 border-t flex items-center justify-between">
@@ -60,20 +388,30 @@ export const CookingMode: React.FC<CookingModeProps> = ({ recipe, onBack }) => {
                 </button>
                 
                 <button 
-                  onClick={playStep}
+                  onClick={() => playStep()}
                   className={`p-4 rounded-full ${isPlaying ? 'bg-red-100 text-red-600' : 'bg-blue-600 text-white shadow-lg shadow-blue-200'}`}
                 >
                    {isPlaying ? <StopIcon /> : <PlayIcon />}
                 </button>
 
-                <button 
-                   disabled={currentStep === recipe.steps.length - 1}
-                   onClick={() => setCurrentStep(c => c + 1)}
-                   className="px-6 py-3 rounded-xl bg-slate-900 text-white disabled:opacity-50"
-                >
-                    Next
-                </button>
+                {isLastStep ? (
+                    <button 
+                       onClick={handleDone}
+                       className="px-6 py-3 rounded-xl bg-emerald-600 text-white font-bold"
+                    >
+                        Done cooking
+                    </button>
+                ) : (
+                    <button 
+                       onClick={() => setCurrentStep(c => c + 1)}
+                       className="px-6 py-3 rounded-xl bg-slate-900 text-white"
+                    >
+                        Next
+                    </button>
+                )}
            </div>
+           </>
+           )}
         </div>
     </div>
   );
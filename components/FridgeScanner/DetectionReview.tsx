@@ -0,0 +1,184 @@
+
+import React, { useState } from 'react';
+import { FridgeItem } from '../../types';
+import { finalizeDetection, needsReview } from '../../services/inventory';
+import { CheckIcon } from '../Icons';
+
+interface DetectionReviewProps {
+    images: { url: string; label: string }[];
+    detections: FridgeItem[];
+    onConfirm: (items: FridgeItem[]) => void;
+    onCancel: () => void;
+}
+
+type ReviewStatus = 'accepted' | 'rejected' | 'review';
+
+interface ReviewEntry {
+    item: FridgeItem;
+    name: string;
+    status: ReviewStatus;
+}
+
+const BOX_STYLES: Record<ReviewStatus, string> = {
+    accepted: 'border-emerald-400 bg-emerald-400/10',
+    review: 'border-amber-400 border-dashed bg-amber-400/10',
+    rejected: 'border-red-400 bg-red-400/10 opacity-40',
+};
+
+const STATUS_PILLS: Record<ReviewStatus, string> = {
+    accepted: 'bg-emerald-50 text-emerald-600',
+    review: 'bg-amber-50 text-amber-600',
+    rejected: 'bg-red-50 text-red-500',
+};
+
+const formatConfidence = (item: FridgeItem) =>
+    item.confidence === undefined ? '' : `${Math.round(item.confidence * 100)}%`;
+
+export const DetectionReview: React.FC<DetectionReviewProps> = ({ images, detections, onConfirm, onCancel }) => {
+    const [entries, setEntries] = useState<ReviewEntry[]>(() => detections.map(item => ({
+        item,
+        name: item.name,
+        // Low-confidence detections are held back until the user explicitly keeps them
+        status: needsReview(item) ? 'review' : 'accepted',
+    })));
+    const [activeImage, setActiveImage] = useState(0);
+    const [selected, setSelected] = useState<number | null>(null);
+
+    const image = images[activeImage];
+    const reviewCount = entries.filter(e => e.status === 'review').length;
+    const acceptedCount = entries.filter(e => e.status === 'accepted').length;
+
+    const updateEntry = (index: number, patch: Partial<ReviewEntry>) => {
+        setEntries(prev => prev.map((e, i) => i === index ? { ...e, ...patch } : e));
+    };
+
+    const handleSelect = (index: number) => {
+        setSelected(index);
+        // Jump to an image that actually shows the item
+        const firstBox = entries[index].item.boxes?.[0];
+        const imageIndex = firstBox ? images.findIndex(img => img.label === firstBox.image) : -1;
+        if (imageIndex !== -1) setActiveImage(imageIndex);
+    };
+
+    const handleConfirm = () => {
+        onConfirm(entries
+            .filter(e => e.status === 'accepted' && e.name.trim())
+            .map(e => finalizeDetection({ ...e.item, name: e.name.trim() })));
+    };
+
+    return (
+        <div className="w-full max-w-sm bg-white rounded-2xl border border-slate-100 shadow-md p-4 animate-in fade-in slide-in-from-bottom-2">
+            <h3 className="text-sm font-bold text-slate-800">Check what we found</h3>
+            <p className="text-xs text-slate-500 mt-0.5">
+                {entries.length} detected{reviewCount > 0 ? `, ${reviewCount} need${reviewCount === 1 ? 's' : ''} review` : ''}. Tap a box to rename or reject it.
+            </p>
+
+            {images.length > 1 && (
+                <div className="flex gap-1.5 mt-3 overflow-x-auto hide-scrollbar">
+                    {images.map((img, i) => (
+                        <button
+                            key={img.url}
+                            onClick={() => setActiveImage(i)}
+                            className={`px-2.5 py-1 rounded-full text-[10px] font-bold whitespace-nowrap transition-all ${i === activeImage ? 'bg-emerald-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                        >
+                            {img.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {image && (
+                <div className="mt-3 flex justify-center bg-slate-50 rounded-xl overflow-hidden">
+                    <div className="relative inline-block">
+                        <img src={image.url} alt={image.label} className="block max-h-72 w-auto" />
+                        {entries.map((entry, index) => (entry.item.boxes || [])
+                            .filter(box => box.image === image.label)
+                            .map((box, boxIndex) => (
+                                <button
+                                    key={`${index}-${boxIndex}`}
+                                    onClick={() => handleSelect(index)}
+                                    className={`absolute border-2 rounded-md transition-all ${BOX_STYLES[entry.status]} ${selected === index ? 'ring-2 ring-white shadow-lg z-10' : ''}`}
+                                    style={{
+                                        top: `${box.ymin * 100}%`,
+                                        left: `${box.xmin * 100}%`,
+                                        height: `${(box.ymax - box.ymin) * 100}%`,
+                                        width: `${(box.xmax - box.xmin) * 100}%`,
+                                    }}
+                                >
+                                    <span className="absolute -top-0.5 left-0 -translate-y-full bg-white/90 text-slate-700 text-[9px] font-bold px-1 rounded whitespace-nowrap">
+                                        {entry.name} {formatConfidence(entry.item)}
+                                    </span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {selected !== null && entries[selected] && (
+                <div className="mt-3 p-3 rounded-xl border border-slate-100 bg-slate-50 space-y-2">
+                    <input
+                        value={entries[selected].name}
+                        onChange={(e) => updateEntry(selected, { name: e.target.value })}
+                        className="w-full text-xs p-2.5 bg-white text-slate-800 border border-slate-200 rounded-lg outline-none focus:border-emerald-400 focus:ring-2 focus:ring-emerald-100"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => { updateEntry(selected, { status: 'accepted' }); setSelected(null); }}
+                            className="flex-1 py-2 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700 transition-colors"
+                        >
+                            Keep
+                        </button>
+                        <button
+                            onClick={() => { updateEntry(selected, { status: 'rejected' }); setSelected(null); }}
+                            className="flex-1 py-2 bg-white border border-red-100 text-red-500 rounded-lg text-xs font-bold hover:bg-red-50 transition-colors"
+                        >
+                            Reject
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-3 max-h-48 overflow-y-auto divide-y divide-slate-50">
+                {entries.map((entry, index) => (
+                    <button
+                        key={index}
+                        onClick={() => handleSelect(index)}
+                        className={`w-full flex items-center justify-between py-2 px-1 text-left ${selected === index ? 'bg-emerald-50/50' : ''}`}
+                    >
+                        <span className={`text-xs font-medium ${entry.status === 'rejected' ? 'text-slate-400 line-through' : 'text-slate-700'}`}>
+                            {entry.name}
+                            <span className="text-[10px] text-slate-400 ml-1.5">{formatConfidence(entry.item)}</span>
+                        </span>
+                        <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded-full flex items-center gap-1 ${STATUS_PILLS[entry.status]}`}>
+                            {entry.status === 'accepted' && <span className="bg-emerald-500 rounded-full p-px"><CheckIcon /></span>}
+                            {entry.status === 'review' ? 'Review' : entry.status === 'accepted' ? 'Keep' : 'Rejected'}
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {reviewCount > 0 && (
+                <p className="text-[10px] text-amber-600 mt-2">
+                    {reviewCount} uncertain item{reviewCount === 1 ? '' : 's'} will be skipped unless you keep {reviewCount === 1 ? 'it' : 'them'}.
+                </p>
+            )}
+
+            <div className="flex gap-2 mt-4">
+                <button
+                    onClick={handleConfirm}
+                    disabled={acceptedCount === 0}
+                    className="flex-1 py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-colors shadow-sm disabled:opacity-50"
+                >
+                    Add {acceptedCount} {acceptedCount === 1 ? 'Item' : 'Items'}
+                </button>
+                <button
+                    onClick={onCancel}
+                    className="px-3 py-2.5 text-slate-400 hover:text-red-500 rounded-xl text-xs font-bold transition-colors"
+                >
+                    Back
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,88 @@
+
+import React, { useState } from 'react';
+import { FridgeItem } from '../../types';
+import { ScanDiff } from '../../services/inventory';
+
+interface ScanDiffPanelProps {
+    diff: ScanDiff;
+    onMerge: (removeMissing: boolean) => void;
+    onReplace: () => void;
+    onDiscard: () => void;
+}
+
+const ItemChips: React.FC<{ items: FridgeItem[]; className: string }> = ({ items, className }) => (
+    <div className="flex flex-wrap gap-1.5 mt-1.5">
+        {items.map(item => (
+            <span key={item.name} className={`text-[10px] font-medium px-2 py-0.5 rounded-full border ${className}`}>
+                {item.name}
+                {item.seenIn && item.seenIn.length > 0 && (
+                    <span className="opacity-60"> · {item.seenIn.join(', ')}</span>
+                )}
+            </span>
+        ))}
+    </div>
+);
+
+export const ScanDiffPanel: React.FC<ScanDiffPanelProps> = ({ diff, onMerge, onReplace, onDiscard }) => {
+    const [removeMissing, setRemoveMissing] = useState(false);
+
+    return (
+        <div className="w-full max-w-sm bg-white rounded-2xl border border-slate-100 shadow-md p-4 animate-in fade-in slide-in-from-bottom-2">
+            <h3 className="text-sm font-bold text-slate-800">Review scan</h3>
+            <p className="text-xs text-slate-500 mt-0.5">
+                {diff.added.length} new, {diff.present.length} already present, {diff.missing.length} missing since last {diff.area.toLowerCase()} scan
+            </p>
+
+            <div className="mt-3 space-y-3 max-h-56 overflow-y-auto">
+                {diff.added.length > 0 && (
+                    <div>
+                        <span className="text-[10px] font-bold text-emerald-600 uppercase tracking-wide">New</span>
+                        <ItemChips items={diff.added} className="bg-emerald-50 border-emerald-100 text-emerald-700" />
+                    </div>
+                )}
+                {diff.present.length > 0 && (
+                    <div>
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Already present</span>
+                        <ItemChips items={diff.present} className="bg-slate-50 border-slate-200 text-slate-500" />
+                    </div>
+                )}
+                {diff.missing.length > 0 && (
+                    <div>
+                        <span className="text-[10px] font-bold text-orange-500 uppercase tracking-wide">Missing from the {diff.area.toLowerCase()}</span>
+                        <ItemChips items={diff.missing} className={`bg-orange-50 border-orange-100 text-orange-700 ${removeMissing ? 'line-through opacity-60' : ''}`} />
+                        <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={removeMissing}
+                                onChange={(e) => setRemoveMissing(e.target.checked)}
+                                className="accent-emerald-600"
+                            />
+                            Remove missing items from inventory
+                        </label>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex gap-2 mt-4">
+                <button
+                    onClick={() => onMerge(removeMissing)}
+                    className="flex-1 py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-colors shadow-sm"
+                >
+                    Merge into Inventory
+                </button>
+                <button
+                    onClick={onReplace}
+                    className="px-3 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-colors"
+                >
+                    Replace
+                </button>
+                <button
+                    onClick={onDiscard}
+                    className="px-3 py-2.5 text-slate-400 hover:text-red-500 rounded-xl text-xs font-bold transition-colors"
+                >
+                    Discard
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,15 +1,37 @@
 
 import React, { useState, useEffect } from 'react';
 import { CameraIcon, TrashIcon } from '../Icons';
-import { analyzeFridgeImage } from '../../services/geminiService';
-import { FridgeItem } from '../../types';
+import { analyzeFridgeImages, ModelResponseError } from '../../services/geminiService';
+import { FridgeItem, ScanArea } from '../../types';
+import { diffScan, mergeScan, ScanDiff } from '../../services/inventory';
+import { extractKeyFrames } from '../../services/frames';
+import { ScanDiffPanel } from './ScanDiffPanel';
+import { DetectionReview } from './DetectionReview';
 
 interface FridgeScannerProps {
+    inventory: FridgeItem[];
+    // Receives the full next inventory (merged or replaced) once the user confirms the scan
     onIngredientsFound: (ing: FridgeItem[], preview: string) => void;
     currentPreview: string | null;
     onClearImage: () => void;
 }
 
+// Upper bound for one batched analysis (photos + extracted video frames)
+const MAX_SCAN_IMAGES = 8;
+
+interface Capture {
+    file: File;
+    url: string;
+    label: string;
+    kind: 'photo' | 'frame';
+}
+
+const SCAN_AREAS: { area: ScanArea; label: string }[] = [
+    { area: 'Fridge', label: '🧊 Fridge' },
+    { area: 'Pantry', label: '🥫 Pantry' },
+    { area: 'Freezer', label: '❄️ Freezer' },
+];
+
 const LOADING_MESSAGES = [
   "📸 Scanning your fridge...",
   "🔍 Identifying fresh ingredients...",
@@ -18,6 +40,7 @@ const LOADING_MESSAGES = [
 ];
 
 export const FridgeScanner: React.FC<FridgeScannerProps> = ({ 
+    inventory,
     onIngredientsFound, 
     currentPreview,
     onClearImage
@@ -25,6 +48,15 @@ export const FridgeScanner: React.FC<FridgeScannerProps> = ({
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
   const [localPreview, setLocalPreview] = useState<string | null>(null);
+  const [pendingScan, setPendingScan] = useState<{ scanned: FridgeItem[]; diff: ScanDiff; preview: string } | null>(null);
+  // Raw detections (with boxes and confidence) waiting for the user to check them
+  const [review, setReview] = useState<FridgeItem[] | null>(null);
+  const [captures, setCaptures] = useState<Capture[]>([]);
+  const [selectedCapture, setSelectedCapture] = useState(0);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractStatus, setExtractStatus] = useState('');
+  // Scanning the pantry after the fridge shouldn't report the fridge's contents as missing
+  const [scanArea, setScanArea] = useState<ScanArea>('Fridge');
 
   useEffect(() => {
     if (!isAnalyzing) {
@@ -42,34 +74,123 @@ export const FridgeScanner: React.FC<FridgeScannerProps> = ({
     return () => clearInterval(interval);
   }, [isAnalyzing]);
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const objectUrl = URL.createObjectURL(file);
-      
-      setLocalPreview(objectUrl);
-      setIsAnalyzing(true);
-      setLoadingMsgIndex(0);
-      
-      try {
-        const detectedIngredients = await analyzeFridgeImage(file);
-        onIngredientsFound(detectedIngredients, objectUrl);
-      } catch (err) {
-        alert("Failed to analyze image. Please try again.");
-        URL.revokeObjectURL(objectUrl);
-        setLocalPreview(null);
-      } finally {
-        setIsAnalyzing(false);
+  const addCaptures = async (files: File[]) => {
+    const next: Capture[] = [];
+    let photoCount = captures.filter(c => c.kind === 'photo').length;
+    let frameCount = captures.filter(c => c.kind === 'frame').length;
+    const slotsLeft = () => MAX_SCAN_IMAGES - captures.length - next.length;
+
+    for (const file of files) {
+      if (slotsLeft() <= 0) break;
+      if (file.type.startsWith('video/')) {
+        setIsExtracting(true);
+        try {
+          const frames = await extractKeyFrames(file, slotsLeft(), setExtractStatus);
+          frames.forEach(frame => {
+            frameCount++;
+            next.push({ file: frame, url: URL.createObjectURL(frame), label: `Video frame ${frameCount}`, kind: 'frame' });
+          });
+        } catch (err) {
+          console.error("Frame extraction failed", err);
+          alert("Could not read that video. Try photos instead.");
+        } finally {
+          setIsExtracting(false);
+        }
+      } else if (file.type.startsWith('image/')) {
+        photoCount++;
+        next.push({ file, url: URL.createObjectURL(file), label: `Photo ${photoCount}`, kind: 'photo' });
       }
     }
+
+    if (next.length > 0) {
+      setCaptures(prev => [...prev, ...next]);
+      setSelectedCapture(captures.length + next.length - 1);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    // Allow picking the same file again later
+    e.target.value = '';
+    if (files.length > 0) await addCaptures(files);
+  };
+
+  const handleRemoveCapture = (index: number) => {
+    URL.revokeObjectURL(captures[index].url);
+    setCaptures(prev => prev.filter((_, i) => i !== index));
+    setSelectedCapture(prev => Math.max(0, Math.min(prev, captures.length - 2)));
+  };
+
+  const handleAnalyze = async () => {
+    if (captures.length === 0) return;
+    setIsAnalyzing(true);
+    setLoadingMsgIndex(0);
+
+    try {
+      const detections = await analyzeFridgeImages(captures.map(({ file, label }) => ({ file, label })));
+      setReview(detections);
+    } catch (err) {
+      alert(err instanceof ModelResponseError ? err.message : "Failed to analyze image. Please try again.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleReviewConfirm = (detections: FridgeItem[]) => {
+    const detectedIngredients = detections.map(item => ({ ...item, scanArea }));
+    const preview = captures[0].url;
+    // Only the first capture is kept as the scan preview
+    captures.slice(1).forEach(c => URL.revokeObjectURL(c.url));
+    setCaptures([]);
+    setSelectedCapture(0);
+    setReview(null);
+    setLocalPreview(preview);
+    if (inventory.length === 0) {
+        onIngredientsFound(detectedIngredients, preview);
+    } else {
+        // Existing inventory: let the user review the diff before anything is overwritten
+        setPendingScan({ scanned: detectedIngredients, diff: diffScan(inventory, detectedIngredients, scanArea), preview });
+    }
+  };
+
+  const handleReviewCancel = () => {
+    // Keep the captures so the user can retake or add photos and analyse again
+    setReview(null);
   };
 
   const handleClear = () => {
+      if (pendingScan) {
+          handleDiscard();
+          return;
+      }
+      captures.forEach(c => URL.revokeObjectURL(c.url));
+      setCaptures([]);
+      setSelectedCapture(0);
       setLocalPreview(null);
       onClearImage();
   };
 
-  const activePreview = localPreview || currentPreview;
+  const handleMerge = (removeMissing: boolean) => {
+      if (!pendingScan) return;
+      onIngredientsFound(mergeScan(inventory, pendingScan.diff, removeMissing), pendingScan.preview);
+      setPendingScan(null);
+  };
+
+  const handleReplace = () => {
+      if (!pendingScan) return;
+      onIngredientsFound(pendingScan.scanned, pendingScan.preview);
+      setPendingScan(null);
+  };
+
+  const handleDiscard = () => {
+      if (!pendingScan) return;
+      URL.revokeObjectURL(pendingScan.preview);
+      setPendingScan(null);
+      setLocalPreview(null);
+  };
+
+  const activePreview = captures[selectedCapture]?.url || localPreview || currentPreview;
+  const isBusy = isAnalyzing || isExtracting;
 
   return (
     // min-h-full ensures it takes up at least the visible area for centering, but expands if needed.
@@ -77,7 +198,7 @@ export const FridgeScanner: React.FC<FridgeScannerProps> = ({
         {/* Header Section */}
         <div className="flex-none px-6 pb-4 text-center z-10">
           <h2 className="text-2xl font-bold text-emerald-900 tracking-tight">What's in your fridge?</h2>
-          <p className="text-sm text-slate-500 font-medium mt-1">Snap a photo to let the AI chef decide.</p>
+          <p className="text-sm text-slate-500 font-medium mt-1">Snap a few photos or a short video to let the AI chef decide.</p>
         </div>
 
         {/* 
@@ -86,7 +207,16 @@ export const FridgeScanner: React.FC<FridgeScannerProps> = ({
            Removed fixed heights and strict aspect ratios to allow natural sizing.
         */}
         <div className="flex-1 w-full flex flex-col items-center justify-center p-4">
-            <div className={`relative w-full max-w-sm aspect-[3/4] bg-white rounded-3xl border-2 border-dashed flex flex-col items-center justify-center overflow-hidden shadow-sm transition-all group ${activePreview ? 'border-emerald-400' : 'border-emerald-200 hover:bg-emerald-50'} ${isAnalyzing ? 'cursor-wait' : 'cursor-pointer'}`}>
+            {review ? (
+                <DetectionReview
+                    images={captures.map(({ url, label }) => ({ url, label }))}
+                    detections={review}
+                    onConfirm={handleReviewConfirm}
+                    onCancel={handleReviewCancel}
+                />
+            ) : (
+            <>
+            <div className={`relative w-full max-w-sm aspect-[3/4] bg-white rounded-3xl border-2 border-dashed flex flex-col items-center justify-center overflow-hidden shadow-sm transition-all group ${activePreview ? 'border-emerald-400' : 'border-emerald-200 hover:bg-emerald-50'} ${isBusy ? 'cursor-wait' : 'cursor-pointer'}`}>
             
             {activePreview ? (
                 <>
@@ -106,7 +236,7 @@ export const FridgeScanner: React.FC<FridgeScannerProps> = ({
                     </div>
                 )}
 
-                {!isAnalyzing && (
+                {!isBusy && (
                     <div className="absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-all flex items-center justify-center backdrop-blur-[2px] z-20">
                         <button 
                             onClick={(e) => {
@@ -128,31 +258,119 @@ export const FridgeScanner: React.FC<FridgeScannerProps> = ({
                     </div>
                     <span className="block text-lg font-bold text-emerald-800">Upload Photo</span>
                     <span className="text-xs text-slate-400 mt-2 max-w-[200px] leading-relaxed">
-                        Tap here to open camera or upload an existing image
+                        Tap here to open camera, or add several photos or a short video below
                     </span>
                 </div>
             )}
+
+            {isExtracting && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center z-20 bg-black/10 backdrop-blur-sm">
+                    <div className="bg-white/90 backdrop-blur-md px-6 py-4 rounded-2xl shadow-xl flex flex-col items-center gap-3 border border-white/50">
+                        <div className="w-10 h-10 rounded-full border-4 border-emerald-100 border-t-emerald-500 animate-spin"></div>
+                        <p className="text-emerald-800 font-bold text-xs min-w-[180px] text-center">
+                            🎞️ {extractStatus || 'Reading video...'}
+                        </p>
+                    </div>
+                </div>
+            )}
             
             <input 
                 type="file" 
                 accept="image/*"
                 capture="environment"
                 onChange={handleFileChange}
-                className={`absolute inset-0 opacity-0 z-10 ${isAnalyzing ? 'cursor-wait' : 'cursor-pointer'}`}
-                disabled={isAnalyzing}
-                title={isAnalyzing ? "Analyzing..." : "Upload image"}
+                className={`absolute inset-0 opacity-0 z-10 ${isBusy ? 'cursor-wait' : 'cursor-pointer'}`}
+                disabled={isBusy || !!pendingScan || captures.length >= MAX_SCAN_IMAGES}
+                title={isAnalyzing ? "Analyzing..." : "Take photo"}
             />
             </div>
+
+            {/* Capture Queue: door, shelves, drawers... analysed together in one batch */}
+            {!pendingScan && (
+                <div className="w-full max-w-sm mt-4">
+                    <div className="flex items-center gap-1.5 mb-3">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide mr-1">Scanning</span>
+                        {SCAN_AREAS.map(({ area, label }) => (
+                            <button
+                                key={area}
+                                onClick={() => setScanArea(area)}
+                                disabled={isBusy}
+                                className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${scanArea === area ? 'bg-emerald-600 text-white shadow-sm' : 'bg-white border border-slate-200 text-slate-500 hover:bg-emerald-50'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {captures.length > 0 && (
+                        <div className="flex gap-2 overflow-x-auto pb-2 hide-scrollbar">
+                            {captures.map((capture, i) => (
+                                <div key={capture.url} className="relative flex-shrink-0">
+                                    <button
+                                        onClick={() => setSelectedCapture(i)}
+                                        className={`w-16 h-16 rounded-xl overflow-hidden border-2 transition-all ${i === selectedCapture ? 'border-emerald-500 shadow-md' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                                    >
+                                        <img src={capture.url} alt={capture.label} className="w-full h-full object-cover" />
+                                    </button>
+                                    <span className="block text-[9px] text-slate-500 font-medium text-center mt-0.5 truncate w-16">{capture.label}</span>
+                                    {!isBusy && (
+                                        <button
+                                            onClick={() => handleRemoveCapture(i)}
+                                            className="absolute -top-1.5 -right-1.5 w-5 h-5 bg-white text-slate-400 hover:text-red-500 rounded-full shadow text-xs font-bold flex items-center justify-center"
+                                        >
+                                            ×
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex gap-2 mt-1">
+                        <label className={`flex-1 py-2.5 rounded-xl border border-slate-200 bg-white text-slate-600 text-xs font-bold text-center transition-colors ${isBusy || captures.length >= MAX_SCAN_IMAGES ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-emerald-200 hover:bg-emerald-50'}`}>
+                            {captures.length > 0 ? '+ Add More' : '+ Photos or Video'}
+                            <input
+                                type="file"
+                                accept="image/*,video/*"
+                                multiple
+                                onChange={handleFileChange}
+                                className="hidden"
+                                disabled={isBusy || captures.length >= MAX_SCAN_IMAGES}
+                            />
+                        </label>
+                        {captures.length > 0 && (
+                            <button
+                                onClick={handleAnalyze}
+                                disabled={isBusy}
+                                className="flex-1 py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-colors shadow-sm disabled:opacity-50"
+                            >
+                                {isAnalyzing ? 'Analyzing...' : `Analyze ${captures.length} ${captures.length === 1 ? 'Image' : 'Images'}`}
+                            </button>
+                        )}
+                    </div>
+                    {captures.length >= MAX_SCAN_IMAGES && (
+                        <p className="text-[10px] text-slate-400 text-center mt-1">Up to {MAX_SCAN_IMAGES} images per scan.</p>
+                    )}
+                </div>
+            )}
+            </>
+            )}
         </div>
 
         {/* Footer Status */}
         <div className="flex-none min-h-[40px] flex items-center justify-center mt-2 px-4">
-            {isAnalyzing ? (
+            {pendingScan ? (
+                <ScanDiffPanel
+                    diff={pendingScan.diff}
+                    onMerge={handleMerge}
+                    onReplace={handleReplace}
+                    onDiscard={handleDiscard}
+                />
+            ) : isAnalyzing ? (
                 <p className="text-slate-400 text-[10px] italic animate-pulse text-center truncate w-full">
                     "Cooking is like love. It should be entered into with abandon or not at all."
                 </p>
             ) : (
-                activePreview && (
+                !review && activePreview && captures.length === 0 && (
                     <button onClick={handleClear} className="text-xs text-slate-400 hover:text-red-500 font-medium transition-colors">
                         Retake Photo
                     </button>
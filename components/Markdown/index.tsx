@@ -0,0 +1,79 @@
+
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../../services/markdown';
+
+interface MarkdownProps {
+    text: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode =>
+    nodes.map((node, i) => {
+        switch (node.type) {
+            case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+            case 'bold': return <strong key={i} className="font-bold">{renderInline(node.children)}</strong>;
+            case 'italic': return <em key={i}>{renderInline(node.children)}</em>;
+            case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-200/70 font-mono text-[0.85em]">{node.text}</code>;
+            case 'link': return (
+                <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-emerald-700 underline underline-offset-2 hover:text-emerald-800">
+                    {renderInline(node.children)}
+                </a>
+            );
+        }
+    });
+
+const HEADING_CLASSES = ['text-base font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold'];
+
+const renderBlock = (block: MarkdownBlock, i: number): React.ReactNode => {
+    switch (block.type) {
+        case 'heading':
+            return <p key={i} className={HEADING_CLASSES[Math.min(block.level, 4) - 1]}>{renderInline(block.content)}</p>;
+        case 'paragraph':
+            return (
+                <p key={i}>
+                    {block.lines.map((line, j) => (
+                        <React.Fragment key={j}>
+                            {j > 0 && <br />}
+                            {renderInline(line)}
+                        </React.Fragment>
+                    ))}
+                </p>
+            );
+        case 'list': {
+            const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+            return block.ordered
+                ? <ol key={i} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+                : <ul key={i} className="list-disc pl-5 space-y-1">{items}</ul>;
+        }
+        case 'table':
+            return (
+                <div key={i} className="overflow-x-auto">
+                    <table className="min-w-full text-xs border-collapse">
+                        <thead>
+                            <tr>
+                                {block.header.map((cell, j) => (
+                                    <th key={j} className="text-left font-bold px-2 py-1.5 border-b border-slate-300">{renderInline(cell)}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {block.rows.map((row, j) => (
+                                <tr key={j} className="border-b border-slate-200 last:border-0">
+                                    {row.map((cell, k) => <td key={k} className="px-2 py-1.5 align-top">{renderInline(cell)}</td>)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'code':
+            return <pre key={i} className="p-3 rounded-lg bg-slate-800 text-slate-100 text-xs font-mono overflow-x-auto">{block.text}</pre>;
+        case 'rule':
+            return <hr key={i} className="border-slate-200" />;
+    }
+};
+
+// Assistant replies, rendered from parsed data rather than HTML so model output can't inject markup
+export const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+    return <div className="space-y-2">{blocks.map(renderBlock)}</div>;
+};
@@ -0,0 +1,341 @@
+
+import React, { useState, useMemo } from 'react';
+import { SparklesIcon, CartPlusIcon } from '../Icons';
+import { planMeals, ModelResponseError } from '../../services/geminiService';
+import { DietaryFilter, FridgeItem, MealPlan, MealSlot, Recipe, ShoppingItem } from '../../types';
+import { daysUntilExpiry, formatExpiry } from '../../services/inventory';
+import { formatIngredient } from '../../services/recipes';
+import { ShoppingEntry, isOnShoppingList } from '../../services/shopping';
+import {
+    MEAL_SLOTS,
+    PLAN_DAYS,
+    applySuggestions,
+    createMealPlan,
+    getMeal,
+    getOpenSlots,
+    getUnplannedPerishables,
+    planDate,
+    planShoppingList,
+    setMeal,
+    summarizePlan
+} from '../../services/mealPlan';
+
+interface MealPlannerProps {
+    plan: MealPlan;
+    setPlan: React.Dispatch<React.SetStateAction<MealPlan>>;
+    recipes: Recipe[];
+    savedRecipes: Recipe[];
+    ingredients: FridgeItem[];
+    dietary: DietaryFilter;
+    allergens: string;
+    shoppingList: ShoppingItem[];
+    onAddToShoppingList: (entries: ShoppingEntry[]) => void;
+    onSelectRecipe: (r: Recipe) => void;
+}
+
+// What is being dragged: a recipe from the tray, or a meal already in the grid (which moves)
+interface DragPayload {
+    recipeId: string;
+    from?: { day: number; slot: MealSlot };
+}
+
+const SLOT_LABELS: Record<MealSlot, string> = { breakfast: 'Breakfast', lunch: 'Lunch', dinner: 'Dinner' };
+
+const formatDayLabel = (date: Date, day: number) => {
+    if (day === 0) return 'Today';
+    if (day === 1) return 'Tomorrow';
+    return date.toLocaleDateString(undefined, { weekday: 'long' });
+};
+
+export const MealPlanner: React.FC<MealPlannerProps> = ({
+    plan,
+    setPlan,
+    recipes,
+    savedRecipes,
+    ingredients,
+    dietary,
+    allergens,
+    shoppingList,
+    onAddToShoppingList,
+    onSelectRecipe
+}) => {
+    // Tap-to-place fallback for touch screens, where HTML drag and drop isn't available
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [planning, setPlanning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Saved recipes first, then generated ones that aren't saved
+    const candidates = useMemo(
+        () => [...savedRecipes, ...recipes.filter(r => !savedRecipes.some(s => s.id === r.id))],
+        [recipes, savedRecipes]
+    );
+    const summaries = useMemo(() => summarizePlan(plan, ingredients), [plan, ingredients]);
+    const weekShopping = useMemo(() => planShoppingList(summaries), [summaries]);
+    const atRisk = useMemo(() => getUnplannedPerishables(summaries, ingredients), [summaries, ingredients]);
+    const pendingShopping = useMemo(
+        () => summaries.flatMap(s => s.purchases).filter(p => !isOnShoppingList(shoppingList, p.ingredient.name, p.recipeId)),
+        [summaries, shoppingList]
+    );
+
+    const findRecipe = (id: string) =>
+        candidates.find(r => r.id === id) || plan.meals.find(m => m.recipe.id === id)?.recipe;
+
+    const placeRecipe = (day: number, slot: MealSlot, payload: DragPayload) => {
+        const recipe = findRecipe(payload.recipeId);
+        if (!recipe) return;
+        setPlan(prev => {
+            const target = getMeal(prev, day, slot);
+            let next = setMeal(prev, day, slot, recipe);
+            // Moving onto a filled slot swaps the two meals
+            if (payload.from) next = setMeal(next, payload.from.day, payload.from.slot, target ? target.recipe : null);
+            return next;
+        });
+    };
+
+    const handleDragStart = (e: React.DragEvent, payload: DragPayload) => {
+        e.dataTransfer.setData('text/plain', JSON.stringify(payload));
+        e.dataTransfer.effectAllowed = 'move';
+    };
+
+    const handleDrop = (e: React.DragEvent, day: number, slot: MealSlot) => {
+        e.preventDefault();
+        setDropTarget(null);
+        try {
+            placeRecipe(day, slot, JSON.parse(e.dataTransfer.getData('text/plain')));
+        } catch (err) {
+            // Not one of our payloads (e.g. text dragged in from elsewhere)
+        }
+    };
+
+    const handleSlotClick = (day: number, slot: MealSlot) => {
+        const meal = getMeal(plan, day, slot);
+        if (selectedId) {
+            placeRecipe(day, slot, { recipeId: selectedId });
+            setSelectedId(null);
+        } else if (meal) {
+            onSelectRecipe(meal.recipe);
+        }
+    };
+
+    const handleAutoPlan = async () => {
+        const openSlots = getOpenSlots(plan);
+        if (candidates.length === 0 || openSlots.length === 0) return;
+        setPlanning(true);
+        setError(null);
+        try {
+            const suggestions = await planMeals({
+                candidates,
+                inventory: ingredients.map(i => ({ name: i.name, daysLeft: daysUntilExpiry(i) })),
+                openSlots,
+                dietary,
+                allergens
+            });
+            if (suggestions.length === 0) {
+                setError("Couldn't find a good fit for the open slots. Generate or save a few more recipes and try again.");
+            }
+            setPlan(prev => applySuggestions(prev, suggestions, candidates));
+        } catch (e) {
+            console.error(e);
+            setError(e instanceof ModelResponseError ? e.message : "Auto-plan failed. Please try again.");
+        } finally {
+            setPlanning(false);
+        }
+    };
+
+    const handleAddAllToShoppingList = () => {
+        onAddToShoppingList(pendingShopping);
+    };
+
+    const handleClearWeek = () => {
+        if (plan.meals.length > 0 && !confirm('Clear every meal from this week?')) return;
+        setPlan(createMealPlan());
+    };
+
+    return (
+        <div className="flex flex-col w-full min-h-full">
+            <div className="sticky top-0 z-20 flex justify-between items-center px-4 py-3 bg-[#f8fafc]/95 backdrop-blur-sm border-b border-slate-100">
+                <h2 className="text-2xl font-bold text-slate-800 tracking-tight">Meal Plan</h2>
+                <button
+                    onClick={handleAutoPlan}
+                    disabled={planning || candidates.length === 0 || getOpenSlots(plan).length === 0}
+                    title={candidates.length === 0 ? 'Generate or save some recipes first' : undefined}
+                    className="flex items-center gap-1.5 px-4 py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold shadow-sm hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                >
+                    <SparklesIcon /> {planning ? 'Planning...' : 'Auto-plan'}
+                </button>
+            </div>
+
+            <div className="p-4 pb-20 space-y-5">
+                {/* Recipe tray */}
+                <div>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wide mb-2">
+                        Drag a recipe onto a slot, or tap it and then tap a slot
+                    </p>
+                    {candidates.length === 0 ? (
+                        <p className="text-sm text-slate-400 italic text-center py-4 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+                            Save or generate some recipes to start planning.
+                        </p>
+                    ) : (
+                        <div className="flex gap-2 overflow-x-auto pb-2 hide-scrollbar">
+                            {candidates.map(recipe => {
+                                const isSaved = savedRecipes.some(s => s.id === recipe.id);
+                                return (
+                                    <button
+                                        key={recipe.id}
+                                        draggable
+                                        onDragStart={(e) => handleDragStart(e, { recipeId: recipe.id })}
+                                        onClick={() => setSelectedId(prev => prev === recipe.id ? null : recipe.id)}
+                                        className={`shrink-0 max-w-[160px] px-3 py-2 rounded-xl border text-left text-xs font-bold transition-all cursor-grab active:cursor-grabbing ${selectedId === recipe.id ? 'bg-emerald-600 border-emerald-600 text-white shadow-md' : 'bg-white border-slate-200 text-slate-700 hover:border-emerald-200'}`}
+                                    >
+                                        <span className="line-clamp-2">{isSaved && '♥ '}{recipe.title}</span>
+                                        <span className={`block text-[10px] font-medium mt-0.5 ${selectedId === recipe.id ? 'text-emerald-100' : 'text-slate-400'}`}>{recipe.prepTime}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                {error && (
+                    <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-600 font-medium text-center">
+                        {error}
+                    </div>
+                )}
+
+                {atRisk.length > 0 && (
+                    <div className="p-3 bg-orange-50 border border-orange-100 rounded-xl">
+                        <p className="text-[10px] font-bold text-orange-600 uppercase tracking-wide mb-1.5">Not planned before it expires</p>
+                        <div className="flex flex-wrap gap-1.5">
+                            {atRisk.map(item => (
+                                <span key={item.name} className="text-[10px] font-medium bg-white text-orange-700 border border-orange-200 px-2 py-0.5 rounded-full">
+                                    {item.name} · {formatExpiry(daysUntilExpiry(item)).toLowerCase()}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Week grid */}
+                <div className="space-y-3">
+                    {Array.from({ length: PLAN_DAYS }, (_, day) => {
+                        const date = planDate(plan, day);
+                        const summary = summaries[day];
+                        return (
+                            <div key={day} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-3">
+                                <div className="flex items-baseline justify-between mb-2">
+                                    <h3 className="text-sm font-bold text-slate-800">{formatDayLabel(date, day)}</h3>
+                                    <span className="text-[10px] text-slate-400">{date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}</span>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {MEAL_SLOTS.map(slot => {
+                                        const meal = getMeal(plan, day, slot);
+                                        const key = `${day}-${slot}`;
+                                        return (
+                                            <div
+                                                key={slot}
+                                                onClick={() => handleSlotClick(day, slot)}
+                                                onDragOver={(e) => { e.preventDefault(); setDropTarget(key); }}
+                                                onDragLeave={() => setDropTarget(prev => prev === key ? null : prev)}
+                                                onDrop={(e) => handleDrop(e, day, slot)}
+                                                draggable={!!meal}
+                                                onDragStart={meal ? (e) => handleDragStart(e, { recipeId: meal.recipe.id, from: { day, slot } }) : undefined}
+                                                className={`relative min-h-[64px] rounded-xl p-2 text-left cursor-pointer transition-all ${
+                                                    dropTarget === key || (selectedId && !meal)
+                                                        ? 'border-2 border-dashed border-emerald-400 bg-emerald-50'
+                                                        : meal
+                                                            ? 'bg-emerald-50/60 border border-emerald-100 hover:border-emerald-300'
+                                                            : 'border border-dashed border-slate-200 hover:border-emerald-200'
+                                                }`}
+                                            >
+                                                <span className="block text-[9px] font-bold uppercase tracking-wide text-slate-400">{SLOT_LABELS[slot]}</span>
+                                                {meal ? (
+                                                    <>
+                                                        <span className="block text-[11px] font-bold text-slate-700 leading-tight mt-0.5 line-clamp-2 pr-3">{meal.recipe.title}</span>
+                                                        <button
+                                                            onClick={(e) => { e.stopPropagation(); setPlan(prev => setMeal(prev, day, slot, null)); }}
+                                                            className="absolute top-1 right-1.5 text-slate-300 hover:text-red-500 text-sm leading-none"
+                                                            title="Remove"
+                                                        >
+                                                            ×
+                                                        </button>
+                                                    </>
+                                                ) : (
+                                                    <span className="block text-lg text-slate-300 text-center mt-1">+</span>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+
+                                {(summary.uses.length > 0 || summary.toBuy.length > 0) && (
+                                    <div className="mt-2 space-y-1">
+                                        {summary.uses.length > 0 && (
+                                            <div className="flex flex-wrap items-center gap-1">
+                                                <span className="text-[9px] font-bold text-emerald-600 uppercase mr-1">Uses</span>
+                                                {summary.uses.map(use => (
+                                                    <span
+                                                        key={use.item}
+                                                        title={use.daysLeft < 0 ? 'Will have expired by this day' : formatExpiry(use.daysLeft)}
+                                                        className={`text-[10px] px-1.5 py-0.5 rounded-full ${use.daysLeft < 0 ? 'bg-red-50 text-red-500 line-through' : use.daysLeft <= 1 ? 'bg-orange-100 text-orange-700 font-bold' : 'bg-slate-100 text-slate-600'}`}
+                                                    >
+                                                        {use.item}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {summary.toBuy.length > 0 && (
+                                            <div className="flex flex-wrap items-center gap-1">
+                                                <span className="text-[9px] font-bold text-orange-500 uppercase mr-1">Buy</span>
+                                                {summary.toBuy.map(ing => (
+                                                    <span key={`${ing.name}-${ing.unit}`} className="text-[10px] px-1.5 py-0.5 rounded-full bg-orange-50 text-orange-700">
+                                                        {formatIngredient(ing)}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Week shopping */}
+                {weekShopping.length > 0 && (
+                    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4">
+                        <div className="flex justify-between items-center mb-3">
+                            <h3 className="text-sm font-bold text-slate-800">To buy this week ({weekShopping.length})</h3>
+                            <button
+                                onClick={handleAddAllToShoppingList}
+                                disabled={pendingShopping.length === 0}
+                                className="flex items-center gap-1 text-xs font-bold text-emerald-600 hover:text-emerald-800 disabled:text-slate-300"
+                            >
+                                <CartPlusIcon /> {pendingShopping.length === 0 ? 'All in cart' : 'Add all'}
+                            </button>
+                        </div>
+                        <ul className="space-y-1">
+                            {weekShopping.map(ing => (
+                                <li key={`${ing.name}-${ing.unit}`} className="text-xs text-slate-600 flex items-center gap-2">
+                                    <span className="w-1.5 h-1.5 rounded-full bg-orange-400"></span>
+                                    {formatIngredient(ing)}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {plan.meals.length > 0 && (
+                    <div className="flex justify-center">
+                        <button
+                            onClick={handleClearWeek}
+                            className="text-xs font-bold text-slate-400 hover:text-red-500 transition-colors"
+                        >
+                            Clear week
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
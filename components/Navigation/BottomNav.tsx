@@ -1,10 +1,11 @@
 
 import React from 'react';
-import { CameraIcon, ChefIcon, CartIcon, MicIcon } from '../Icons';
+import { CameraIcon, ChefIcon, CalendarIcon, CartIcon, MicIcon } from '../Icons';
 
 interface BottomNavProps {
-    activeTab: 'scan' | 'recipes' | 'shopping' | 'assistant';
-    setActiveTab: (tab: 'scan' | 'recipes' | 'shopping' | 'assistant') => void;
+    // 'impact' is opened from the header, so no button here lights up for it
+    activeTab: 'scan' | 'recipes' | 'plan' | 'shopping' | 'assistant' | 'impact';
+    setActiveTab: (tab: 'scan' | 'recipes' | 'plan' | 'shopping' | 'assistant') => void;
     shoppingCount: number;
 }
 
@@ -22,6 +23,10 @@ export const BottomNav: React.FC<BottomNavProps> = ({ activeTab, setActiveTab, s
               <ChefIcon />
               <span className="text-[10px] font-medium">Recipes</span>
           </button>
+          <button onClick={() => setActiveTab('plan')} className={`flex flex-col items-center space-y-1 ${activeTab === 'plan' ? activeClass : inactiveClass}`}>
+              <CalendarIcon />
+              <span className="text-[10px] font-medium">Plan</span>
+          </button>
           <button onClick={() => setActiveTab('shopping')} className={`relative flex flex-col items-center space-y-1 ${activeTab === 'shopping' ? activeClass : inactiveClass}`}>
               <CartIcon />
               {shoppingCount > 0 && <span className="absolute -top-1 right-2 w-4 h-4 bg-orange-500 text-white text-[10px] rounded-full flex items-center justify-center font-bold shadow-sm">{shoppingCount}</span>}
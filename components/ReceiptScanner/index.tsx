@@ -0,0 +1,181 @@
+
+import React, { useState } from 'react';
+import { CameraIcon, CheckIcon } from '../Icons';
+import { analyzeReceipt, ModelResponseError } from '../../services/geminiService';
+import { FridgeItem, ReceiptLine, ShoppingItem } from '../../types';
+import { formatQuantity } from '../../services/inventory';
+import { coversShoppingLine } from '../../services/shopping';
+
+interface ReceiptScannerProps {
+    shoppingList: ShoppingItem[];
+    // Receives only the lines the user kept; the parent merges them and ticks off the shopping list
+    onItemsAdded: (items: FridgeItem[]) => void;
+}
+
+export const ReceiptScanner: React.FC<ReceiptScannerProps> = ({ shoppingList, onItemsAdded }) => {
+    const [preview, setPreview] = useState<string | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [store, setStore] = useState<string | undefined>();
+    const [lines, setLines] = useState<ReceiptLine[] | null>(null);
+    const [skipped, setSkipped] = useState<Set<number>>(new Set());
+    const [summary, setSummary] = useState<string | null>(null);
+
+    const reset = () => {
+        if (preview) URL.revokeObjectURL(preview);
+        setPreview(null);
+        setLines(null);
+        setStore(undefined);
+        setSkipped(new Set());
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        reset();
+        setSummary(null);
+        setPreview(URL.createObjectURL(file));
+        setIsAnalyzing(true);
+        try {
+            const result = await analyzeReceipt(file);
+            setStore(result.store);
+            setLines(result.lines);
+        } catch (err) {
+            alert(err instanceof ModelResponseError ? err.message : "Failed to read the receipt. Please try again.");
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    const toggleLine = (index: number) => {
+        setSkipped(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+    };
+
+    // Same test checkOffPurchases applies, so the badge and the count match what actually gets ticked
+    const isOnList = (item: FridgeItem) => shoppingList.some(entry => coversShoppingLine(entry, item));
+
+    const kept = (lines || []).filter((_, i) => !skipped.has(i)).map(l => l.item);
+    const tickCount = shoppingList.filter(entry => kept.some(item => coversShoppingLine(entry, item))).length;
+
+    const handleAdd = () => {
+        onItemsAdded(kept);
+        setSummary(`Added ${kept.length} ${kept.length === 1 ? 'item' : 'items'} to your inventory` +
+            (tickCount > 0 ? ` and ticked ${tickCount} off your shopping list.` : '.'));
+        reset();
+    };
+
+    return (
+        <div className="flex flex-col min-h-full w-full bg-[#f8fafc] py-6">
+            <div className="flex-none px-6 pb-4 text-center">
+                <h2 className="text-2xl font-bold text-emerald-900 tracking-tight">Just been shopping?</h2>
+                <p className="text-sm text-slate-500 font-medium mt-1">Snap your receipt to add everything you bought.</p>
+            </div>
+
+            <div className="flex-1 w-full flex flex-col items-center p-4 gap-4">
+                {!lines && (
+                    <div className={`relative w-full max-w-sm aspect-[3/4] bg-white rounded-3xl border-2 border-dashed flex flex-col items-center justify-center overflow-hidden shadow-sm transition-all ${preview ? 'border-emerald-400' : 'border-emerald-200 hover:bg-emerald-50'} ${isAnalyzing ? 'cursor-wait' : 'cursor-pointer'}`}>
+                        {preview ? (
+                            <img src={preview} alt="Receipt" className={`w-full h-full object-contain transition-all duration-500 ${isAnalyzing ? 'blur-[2px]' : ''}`} />
+                        ) : (
+                            <div className="text-center pointer-events-none p-4 flex flex-col items-center">
+                                <div className="w-20 h-20 bg-emerald-50 text-emerald-500 rounded-full flex items-center justify-center mb-4 shadow-sm border border-emerald-100">
+                                    <CameraIcon />
+                                </div>
+                                <span className="block text-lg font-bold text-emerald-800">Scan Receipt</span>
+                                <span className="text-xs text-slate-400 mt-2 max-w-[200px] leading-relaxed">
+                                    Lay it flat in good light so the small print is readable
+                                </span>
+                            </div>
+                        )}
+
+                        {isAnalyzing && (
+                            <div className="absolute inset-0 flex items-center justify-center z-20 bg-black/10 backdrop-blur-sm">
+                                <div className="bg-white/90 px-6 py-4 rounded-2xl shadow-xl flex flex-col items-center gap-3 border border-white/50">
+                                    <div className="w-10 h-10 rounded-full border-4 border-emerald-100 border-t-emerald-500 animate-spin"></div>
+                                    <p className="text-emerald-800 font-bold text-xs">🧾 Reading your receipt...</p>
+                                </div>
+                            </div>
+                        )}
+
+                        <input
+                            type="file"
+                            accept="image/*"
+                            capture="environment"
+                            onChange={handleFileChange}
+                            className={`absolute inset-0 opacity-0 z-10 ${isAnalyzing ? 'cursor-wait' : 'cursor-pointer'}`}
+                            disabled={isAnalyzing}
+                            title="Scan receipt"
+                        />
+                    </div>
+                )}
+
+                {summary && !lines && (
+                    <p className="text-xs font-medium text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-xl px-4 py-2.5 max-w-sm text-center">
+                        {summary}
+                    </p>
+                )}
+
+                {lines && (
+                    <div className="w-full max-w-sm bg-white rounded-2xl border border-slate-100 shadow-md p-4 animate-in fade-in slide-in-from-bottom-2">
+                        <h3 className="text-sm font-bold text-slate-800">{store || 'Receipt'}</h3>
+                        <p className="text-xs text-slate-500 mt-0.5">
+                            {lines.length} food {lines.length === 1 ? 'item' : 'items'} found. Untick anything you don't want to add.
+                        </p>
+
+                        {lines.length === 0 ? (
+                            <p className="text-xs text-slate-400 italic mt-4 text-center">No food purchases could be read from this receipt.</p>
+                        ) : (
+                            <div className="mt-3 max-h-80 overflow-y-auto divide-y divide-slate-50">
+                                {lines.map((line, i) => (
+                                    <label key={i} className="flex items-center gap-3 py-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={!skipped.has(i)}
+                                            onChange={() => toggleLine(i)}
+                                            className="accent-emerald-600"
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <span className={`block text-xs font-medium ${skipped.has(i) ? 'text-slate-400 line-through' : 'text-slate-700'}`}>
+                                                {line.item.name}
+                                                <span className="text-[10px] text-slate-400 ml-1.5">{formatQuantity(line.item)}</span>
+                                            </span>
+                                            <span className="block text-[10px] font-mono text-slate-400 truncate">{line.raw}</span>
+                                        </div>
+                                        {isOnList(line.item) && (
+                                            <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded-full bg-emerald-50 text-emerald-600 flex items-center gap-1 flex-shrink-0">
+                                                <span className="bg-emerald-500 rounded-full p-px"><CheckIcon /></span>
+                                                On list
+                                            </span>
+                                        )}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="flex gap-2 mt-4">
+                            <button
+                                onClick={handleAdd}
+                                disabled={kept.length === 0}
+                                className="flex-1 py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-colors shadow-sm disabled:opacity-50"
+                            >
+                                Add {kept.length} to Inventory
+                            </button>
+                            <button
+                                onClick={reset}
+                                className="px-3 py-2.5 text-slate-400 hover:text-red-500 rounded-xl text-xs font-bold transition-colors"
+                            >
+                                Discard
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,25 +1,58 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { HeartIcon, CartPlusIcon, CartCheckIcon, CheckIcon, SparklesIcon } from '../Icons';
-import { Recipe, FridgeItem, Substitution, WasteScore, DietaryFilter, Craving } from '../../types';
-import { suggestSubstitutions, calculateWasteScore } from '../../services/geminiService';
+import { Recipe, FridgeItem, Substitution, DietaryFilter, Craving, UnitSystem, ShoppingItem, Ingredient, CookingTimer, RecipeNote } from '../../types';
+import { suggestSubstitutions, explainWasteScore, ModelResponseError } from '../../services/geminiService';
+import { formatIngredient, isIngredientMissing, matchesIngredient } from '../../services/recipes';
+import { scoreRecipeWaste } from '../../services/wasteScore';
+import { formatExpiry } from '../../services/inventory';
+import { isOnShoppingList } from '../../services/shopping';
+import { TimerTray } from '../TimerTray';
+import { Markdown } from '../Markdown';
 
 interface RecipeDetailsProps {
+    // Already scaled to the chosen servings and units (see scaleRecipe)
     recipe: Recipe;
+    originalServings: number;
+    onChangeServings: (servings: number) => void;
+    unitSystem: UnitSystem | null;
+    onChangeUnitSystem: (system: UnitSystem | null) => void;
     isSaved: boolean;
     onToggleSave: () => void;
     onBack: () => void;
-    onStartCooking: () => void;
-    shoppingList: string[];
-    onToggleShoppingList: (item: string) => void;
+    // Passes on the substitutes in use so cooking deducts them instead of the missing ingredients
+    onStartCooking: (substitutions: Substitution[]) => void;
+    shoppingList: ShoppingItem[];
+    // Adds or removes this recipe's share of an ingredient
+    onToggleShoppingList: (ingredient: Ingredient, recipeId: string) => void;
     availableIngredients: FridgeItem[];
     dietary: DietaryFilter;
     allergens: string;
     cravings: Craving[];
+    // Timers started in cooking mode keep running here
+    timers: CookingTimer[];
+    setTimers: React.Dispatch<React.SetStateAction<CookingTimer[]>>;
+    // Assistant answers saved to this recipe
+    notes: RecipeNote[];
+    onRemoveNote: (noteId: string) => void;
+    canOpenThread: (threadId: string) => boolean; // The conversation may have been deleted since
+    onOpenThread: (threadId: string) => void;
 }
 
+const MAX_SERVINGS = 12;
+
+const UNIT_OPTIONS: { value: UnitSystem | null; label: string }[] = [
+    { value: null, label: 'Original' },
+    { value: 'metric', label: 'Metric' },
+    { value: 'us', label: 'US' },
+];
+
 export const RecipeDetails: React.FC<RecipeDetailsProps> = ({ 
     recipe, 
+    originalServings,
+    onChangeServings,
+    unitSystem,
+    onChangeUnitSystem,
     isSaved,
     onToggleSave,
     onBack, 
@@ -29,39 +62,48 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
     availableIngredients,
     dietary,
     allergens,
-    cravings
+    cravings,
+    timers,
+    setTimers,
+    notes,
+    onRemoveNote,
+    canOpenThread,
+    onOpenThread
 }) => {
+    // Keyed by ingredient name
     const [checkedState, setCheckedState] = useState<{ [key: string]: boolean }>({});
     const [substitutions, setSubstitutions] = useState<Substitution[]>([]);
     const [loadingSubs, setLoadingSubs] = useState(false);
     const [hasLoadedSubs, setHasLoadedSubs] = useState(false);
     const [viewMode, setViewMode] = useState<'original' | 'substituted'>('original');
     const [loadingIngredients, setLoadingIngredients] = useState<Set<string>>(new Set());
+    const [subsError, setSubsError] = useState<string | null>(null);
     
-    // Waste Score State
-    const [wasteScore, setWasteScore] = useState<WasteScore | null>(null);
-    const [loadingScore, setLoadingScore] = useState(false);
+    // Waste Score State: computed locally; the AI is only asked (on demand) to reword the breakdown
+    const [showBreakdown, setShowBreakdown] = useState(false);
+    const [aiExplanation, setAiExplanation] = useState<string | null>(null);
+    const [loadingExplanation, setLoadingExplanation] = useState(false);
+
+    // Rescaling keeps ingredient names, so only a different recipe needs a fresh check list and score
+    const wasteScore = useMemo(() => scoreRecipeWaste(recipe, availableIngredients), [recipe.id, availableIngredients]);
 
     useEffect(() => {
         const initialState: {[key:string]: boolean} = {};
         recipe.ingredients.forEach(ing => {
-            const isMissing = recipe.missingIngredients.some(missing => 
-                ing.toLowerCase().includes(missing.toLowerCase())
-            );
-            initialState[ing] = !isMissing;
+            initialState[ing.name] = !isIngredientMissing(recipe, ing);
         });
         setCheckedState(initialState);
-        
-        // Load Waste Score on mount
-        const loadScore = async () => {
-            setLoadingScore(true);
-            const availableNames = availableIngredients.map(i => i.name);
-            const score = await calculateWasteScore(availableNames, recipe.ingredients, recipe.title);
-            setWasteScore(score);
-            setLoadingScore(false);
-        };
-        loadScore();
-    }, [recipe, availableIngredients]);
+        setAiExplanation(null);
+    }, [recipe.id]);
+
+    const handleExplainScore = async () => {
+        setLoadingExplanation(true);
+        try {
+            setAiExplanation(await explainWasteScore(recipe.title, wasteScore));
+        } finally {
+            setLoadingExplanation(false);
+        }
+    };
 
     const handleTogglePrep = (ing: string) => {
         setCheckedState(prev => ({ ...prev, [ing]: !prev[ing] }));
@@ -70,9 +112,9 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
     const handleAddAllMissing = () => {
         // Add items that are currently unchecked (missing)
         recipe.ingredients.forEach(ing => {
-            const isMissing = !checkedState[ing];
-            if (isMissing && !shoppingList.includes(ing)) {
-                onToggleShoppingList(ing);
+            const isMissing = !checkedState[ing.name];
+            if (isMissing && !isOnShoppingList(shoppingList, ing.name, recipe.id)) {
+                onToggleShoppingList(ing, recipe.id);
             }
         });
     };
@@ -85,12 +127,13 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
 
     const handleFindSubstitutions = async () => {
         setLoadingSubs(true);
+        setSubsError(null);
         try {
             const missingNames = getCurrentMissingIngredients();
             
             const availableNames = availableIngredients
                 .map(i => i.name)
-                .filter(name => !missingNames.some(m => name.toLowerCase().includes(m.toLowerCase())));
+                .filter(name => !missingNames.some(m => matchesIngredient(name, m)));
 
             const subs = await suggestSubstitutions(
                 availableNames, 
@@ -104,6 +147,7 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
             setHasLoadedSubs(true);
         } catch (e) {
             console.error(e);
+            if (e instanceof ModelResponseError) setSubsError(e.message);
         } finally {
             setLoadingSubs(false);
         }
@@ -111,10 +155,11 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
 
     const handleFindSingleSubstitution = async (ing: string) => {
         setLoadingIngredients(prev => new Set(prev).add(ing));
+        setSubsError(null);
         try {
             const availableNames = availableIngredients
                 .map(i => i.name)
-                .filter(n => !n.toLowerCase().includes(ing.toLowerCase()));
+                .filter(n => !matchesIngredient(n, ing));
             
             const subs = await suggestSubstitutions(
                 availableNames, 
@@ -130,6 +175,7 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
             });
         } catch (e) {
             console.error(e);
+            if (e instanceof ModelResponseError) setSubsError(e.message);
         } finally {
             setLoadingIngredients(prev => {
                 const next = new Set(prev);
@@ -166,6 +212,8 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
                     </button>
                 </div>
 
+                <TimerTray timers={timers} setTimers={setTimers} />
+
                 {/* Scrollable Content */}
                 <div className="flex-1 overflow-y-auto pb-32 p-6 scroll-smooth">
                     {/* Visual Header Placeholder */}
@@ -194,6 +242,49 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
                         </div>
                     </div>
 
+                    {/* Servings & Units */}
+                    <div className="flex items-center justify-between gap-3 mb-6">
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs font-bold text-slate-500 uppercase tracking-wide">Serves</span>
+                            <div className="flex items-center bg-slate-100 rounded-lg">
+                                <button
+                                    onClick={() => onChangeServings(Math.max(1, recipe.servings - 1))}
+                                    disabled={recipe.servings <= 1}
+                                    className="w-8 h-8 text-slate-600 font-bold disabled:opacity-30"
+                                >
+                                    −
+                                </button>
+                                <span className="w-6 text-center text-sm font-bold text-slate-800">{recipe.servings}</span>
+                                <button
+                                    onClick={() => onChangeServings(Math.min(MAX_SERVINGS, recipe.servings + 1))}
+                                    disabled={recipe.servings >= MAX_SERVINGS}
+                                    className="w-8 h-8 text-slate-600 font-bold disabled:opacity-30"
+                                >
+                                    +
+                                </button>
+                            </div>
+                            {recipe.servings !== originalServings && (
+                                <button
+                                    onClick={() => onChangeServings(originalServings)}
+                                    className="text-[10px] text-slate-400 hover:text-emerald-600 font-medium"
+                                >
+                                    (written for {originalServings})
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex bg-slate-100 p-1 rounded-lg">
+                            {UNIT_OPTIONS.map(option => (
+                                <button
+                                    key={option.label}
+                                    onClick={() => onChangeUnitSystem(option.value)}
+                                    className={`px-2.5 py-1 rounded-md text-[10px] font-bold transition-all ${unitSystem === option.value ? 'bg-white shadow text-slate-700' : 'text-slate-400 hover:text-slate-600'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     {/* Waste Score Card */}
                     <div className="bg-white border border-slate-100 shadow-md rounded-2xl p-5 mb-8 relative overflow-hidden">
                         <div className="absolute top-0 right-0 p-2 opacity-10 text-6xl rotate-12">♻️</div>
@@ -202,40 +293,69 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
                                 <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
                                     <span className="text-lg">🌱</span> Food Waste Score
                                 </h3>
-                                {loadingScore ? (
-                                    <div className="mt-2 text-xs text-slate-400 animate-pulse">Calculating impact...</div>
-                                ) : wasteScore ? (
-                                    <div className="mt-2">
-                                        <p className="text-xs text-slate-500 leading-relaxed max-w-[220px]">
-                                            {wasteScore.explanation}
-                                        </p>
-                                        {wasteScore.unused.length > 0 && (
-                                            <div className="mt-3">
-                                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Leftover Fridge Items</span>
-                                                <div className="flex flex-wrap gap-1 mt-1">
-                                                    {wasteScore.unused.slice(0, 5).map(u => (
-                                                        <span key={u} className="text-[10px] bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">{u}</span>
-                                                    ))}
-                                                    {wasteScore.unused.length > 5 && <span className="text-[10px] text-slate-400 px-1">+{wasteScore.unused.length - 5} more</span>}
-                                                </div>
+                                <div className="mt-2">
+                                    <p className="text-xs text-slate-500 leading-relaxed max-w-[220px]">
+                                        {aiExplanation || wasteScore.explanation}
+                                    </p>
+                                    {wasteScore.unused.length > 0 && (
+                                        <div className="mt-3">
+                                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Leftover Fridge Items</span>
+                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                {wasteScore.unused.slice(0, 5).map(u => (
+                                                    <span key={u} className="text-[10px] bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">{u}</span>
+                                                ))}
+                                                {wasteScore.unused.length > 5 && <span className="text-[10px] text-slate-400 px-1">+{wasteScore.unused.length - 5} more</span>}
                                             </div>
-                                        )}
-                                    </div>
-                                ) : (
-                                    <div className="mt-2 text-xs text-slate-400">Score unavailable</div>
-                                )}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
 
                             {/* Circular Score Indicator */}
-                            {!loadingScore && wasteScore && (
-                                <div className={`flex items-center justify-center w-16 h-16 rounded-full border-4 ${getScoreColor(wasteScore.score)} bg-white shadow-sm flex-shrink-0`}>
-                                    <div className="text-center">
-                                        <span className={`block text-lg font-extrabold leading-none ${getScoreColor(wasteScore.score).split(' ')[0]}`}>{wasteScore.score}</span>
-                                        <span className="text-[8px] font-bold text-slate-400">/100</span>
-                                    </div>
+                            <div className={`flex items-center justify-center w-16 h-16 rounded-full border-4 ${getScoreColor(wasteScore.score)} bg-white shadow-sm flex-shrink-0`}>
+                                <div className="text-center">
+                                    <span className={`block text-lg font-extrabold leading-none ${getScoreColor(wasteScore.score).split(' ')[0]}`}>{wasteScore.score}</span>
+                                    <span className="text-[8px] font-bold text-slate-400">/100</span>
                                 </div>
-                            )}
+                            </div>
                         </div>
+
+                        {wasteScore.breakdown && wasteScore.breakdown.length > 0 && (
+                            <div className="relative z-10 mt-3 flex gap-3">
+                                <button
+                                    onClick={() => setShowBreakdown(s => !s)}
+                                    className="text-[10px] font-bold text-emerald-600 hover:text-emerald-800"
+                                >
+                                    {showBreakdown ? 'Hide breakdown' : 'How is this scored?'}
+                                </button>
+                                {!aiExplanation && (
+                                    <button
+                                        onClick={handleExplainScore}
+                                        disabled={loadingExplanation}
+                                        className="text-[10px] font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1 disabled:opacity-50"
+                                    >
+                                        <SparklesIcon /> {loadingExplanation ? 'Explaining...' : 'Explain with AI'}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {showBreakdown && wasteScore.breakdown && (
+                            <div className="relative z-10 mt-3 pt-3 border-t border-slate-100 space-y-1.5">
+                                <p className="text-[10px] text-slate-400 leading-relaxed">
+                                    Each item is worth more points the closer it is to expiry. The score is the share of points this recipe uses.
+                                </p>
+                                {wasteScore.breakdown.map(entry => (
+                                    <div key={entry.item} className="flex items-center justify-between text-[11px]">
+                                        <span className={entry.used ? 'text-emerald-700 font-medium' : 'text-slate-400'}>
+                                            {entry.used ? '✓' : '○'} {entry.item}
+                                            <span className="text-slate-400 font-normal"> · {formatExpiry(entry.daysLeft).toLowerCase()}</span>
+                                        </span>
+                                        <span className={`font-bold ${entry.used ? 'text-emerald-600' : 'text-slate-300'}`}>{entry.weight} pts</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
 
                     <div className="mb-8">
@@ -276,21 +396,23 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
                                 </div>
                             )}
                         </div>
+
+                        {subsError && (
+                            <p className="mb-3 text-xs text-red-500 font-medium">{subsError}</p>
+                        )}
                         
                         <div className="space-y-3">
-                            {recipe.ingredients.map((ing, idx) => {
+                            {recipe.ingredients.map((ingredient, idx) => {
+                                const ing = ingredient.name;
+                                const label = formatIngredient(ingredient);
                                 const isPrepped = checkedState[ing];
                                 const isEffectivelyMissing = !isPrepped;
-                                const isInCart = shoppingList.includes(ing);
+                                const isInCart = isOnShoppingList(shoppingList, ing, recipe.id);
                                 
-                                const substitution = substitutions.find(s => 
-                                    s.missing.toLowerCase() === ing.toLowerCase() ||
-                                    ing.toLowerCase().includes(s.missing.toLowerCase()) ||
-                                    s.missing.toLowerCase().includes(ing.toLowerCase())
-                                );
+                                const substitution = substitutions.find(s => matchesIngredient(s.missing, ing));
 
                                 const isLoadingSingle = loadingIngredients.has(ing);
-                                const substituteInCart = substitution && shoppingList.includes(substitution.substitute);
+                                const substituteInCart = substitution && isOnShoppingList(shoppingList, substitution.substitute, recipe.id);
 
                                 return (
                                     <div key={idx} className={`flex flex-col p-3 rounded-xl border transition-all ${isEffectivelyMissing ? 'bg-orange-50/30 border-orange-100' : 'bg-white border-slate-100'}`}>
@@ -303,14 +425,16 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
                                                 </div>
                                                 <div className="flex flex-col">
                                                     <span className={`${isPrepped ? 'text-slate-400 line-through decoration-slate-300' : 'text-slate-700'} text-sm font-medium transition-all`}>
-                                                        {ing}
+                                                        {label}
+                                                        {ingredient.preparation && <span className="text-slate-400 font-normal">, {ingredient.preparation}</span>}
+                                                        {ingredient.optional && <span className="ml-1.5 text-[9px] font-bold uppercase text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded-full no-underline">Optional</span>}
                                                     </span>
                                                     {isEffectivelyMissing && <span className="text-[10px] text-orange-500 font-bold mt-0.5">Missing</span>}
                                                 </div>
                                             </div>
 
                                             <button 
-                                                onClick={() => onToggleShoppingList(ing)}
+                                                onClick={() => onToggleShoppingList(ingredient, recipe.id)}
                                                 className={`ml-3 p-2 rounded-full transition-all active:scale-95 ${isInCart ? 'bg-emerald-100 text-emerald-700' : isEffectivelyMissing ? 'bg-orange-100 text-orange-600 shadow-sm hover:bg-orange-200' : 'bg-slate-50 text-slate-400 hover:bg-emerald-50 hover:text-emerald-500'}`}
                                                 title={isInCart ? "Remove from cart" : "Add to cart"}
                                             >
@@ -331,7 +455,7 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
                                                         
                                                         {substitution.source === 'Buy' && (
                                                             <button 
-                                                                onClick={() => onToggleShoppingList(substitution.substitute)}
+                                                                onClick={() => onToggleShoppingList({ name: substitution.substitute, quantity: null, unit: '', preparation: '', optional: false }, recipe.id)}
                                                                 className={`w-full py-1.5 rounded-md font-bold text-[10px] transition-colors flex items-center justify-center gap-1 ${substituteInCart ? 'bg-emerald-100 text-emerald-700' : 'bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-100'}`}
                                                             >
                                                                 {substituteInCart ? <CartCheckIcon /> : <CartPlusIcon />}
@@ -378,12 +502,32 @@ export const RecipeDetails: React.FC<RecipeDetailsProps> = ({
                             ))}
                         </div>
                     </div>
+
+                    {notes.length > 0 && (
+                        <div className="mb-8">
+                            <h3 className="text-lg font-bold text-slate-800 mb-4">Notes</h3>
+                            <div className="space-y-3">
+                                {notes.map(note => (
+                                    <div key={note.id} className="bg-amber-50/60 rounded-xl p-4 border border-amber-100 text-sm text-slate-700 leading-relaxed">
+                                        <Markdown text={note.text} />
+                                        <div className="flex items-center gap-3 mt-3 text-[11px]">
+                                            <span className="text-slate-400">📌 From the assistant · {new Date(note.createdAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}</span>
+                                            {canOpenThread(note.threadId) && (
+                                                <button onClick={() => onOpenThread(note.threadId)} className="font-bold text-emerald-700 hover:underline">Open chat</button>
+                                            )}
+                                            <button onClick={() => onRemoveNote(note.id)} className="ml-auto font-bold text-slate-400 hover:text-red-500">Remove</button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Fixed Footer */}
                 <div className="flex-none p-4 bg-white/95 backdrop-blur border-t border-slate-100 absolute bottom-0 left-0 right-0 z-20">
                     <button 
-                        onClick={onStartCooking}
+                        onClick={() => onStartCooking(viewMode === 'substituted' ? substitutions : [])}
                         className="w-full py-4 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-xl font-bold text-lg shadow-lg shadow-emerald-200 hover:shadow-emerald-300 transition-all active:scale-[0.99]"
                     >
                         Start Guided Cooking
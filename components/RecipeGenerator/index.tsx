@@ -1,8 +1,11 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { HeartIcon, StarIcon, ChevronDownIcon, ChevronUpIcon, SparklesIcon } from '../Icons';
-import { generateRecipes } from '../../services/geminiService';
-import { Recipe, DietaryFilter, Craving, FridgeItem } from '../../types';
+import { generateRecipes, ModelResponseError } from '../../services/geminiService';
+import { Recipe, DietaryFilter, Craving, FridgeItem, RecipeSortKey, RecipeSortOptions } from '../../types';
+import { createInventoryItem, daysUntilExpiry, formatExpiry, formatQuantity, getPriorityIngredients, isExpiringSoon, isSameItem, parseQuantityInput } from '../../services/inventory';
+import { rankRecipes, sortRecipes } from '../../services/recipeRanking';
+import { ShoppingEntry } from '../../services/shopping';
 
 interface RecipeGeneratorProps {
     ingredients: FridgeItem[];
@@ -12,7 +15,7 @@ interface RecipeGeneratorProps {
     savedRecipes: Recipe[];
     onToggleSave: (r: Recipe) => void;
     onSelectRecipe: (r: Recipe) => void;
-    onAddToShoppingList: (item: string) => void;
+    onAddToShoppingList: (entries: ShoppingEntry[]) => void;
     dietary: DietaryFilter;
     setDietary: (d: DietaryFilter) => void;
     allergens: string;
@@ -20,17 +23,32 @@ interface RecipeGeneratorProps {
     cravings: Craving[];
     setCravings: React.Dispatch<React.SetStateAction<Craving[]>>;
     location: {lat: number, lng: number} | null;
+    sortOptions: RecipeSortOptions;
+    setSortOptions: React.Dispatch<React.SetStateAction<RecipeSortOptions>>;
+    generateRequested: boolean; // The assistant asked for a new menu
+    onGenerateRequestHandled: () => void;
 }
 
-const LOADING_STEPS = [
-    "🤔 Analyzing your fridge inventory...",
-    "🌶️ Pairing compatible flavors...",
-    "🥦 Checking dietary restrictions...",
-    "📚 Consulting culinary databases...",
-    "⚖️ Calculating nutritional macros...",
-    "✨ Plating up your menu..."
+// Only show expiry badges for items going off within a week; pantry goods would just add noise
+const EXPIRY_BADGE_DAYS = 7;
+
+const SORT_OPTIONS: { key: RecipeSortKey; label: string }[] = [
+    { key: 'waste', label: 'Least waste' },
+    { key: 'time', label: 'Quickest' },
+    { key: 'missing', label: 'Fewest missing' },
+    { key: 'calories', label: 'Lightest' },
+    { key: 'difficulty', label: 'Easiest' },
 ];
 
+const TIME_LIMITS = [15, 30, 45, 60];
+const DIFFICULTIES: Recipe['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+const getWasteBadgeColor = (score: number) => {
+    if (score >= 70) return 'bg-emerald-500 text-white';
+    if (score >= 40) return 'bg-yellow-400 text-yellow-900';
+    return 'bg-white/90 text-slate-500';
+};
+
 export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({ 
     ingredients, 
     setIngredients,
@@ -46,13 +64,20 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
     setAllergens,
     cravings,
     setCravings,
-    location
+    location,
+    sortOptions,
+    setSortOptions,
+    generateRequested,
+    onGenerateRequestHandled
 }) => {
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [newIngredient, setNewIngredient] = useState('');
   const [view, setView] = useState<'generated' | 'saved'>('generated');
-  const [loadingStep, setLoadingStep] = useState(0);
+  // Recipes received so far from the generation in progress
+  const [streamedCount, setStreamedCount] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({
       'Produce': true,
       'Protein': true,
@@ -66,23 +91,14 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
 
   const availableCravings: Craving[] = ['Spicy', 'Sweet', 'Savory', 'Sour', 'Comfort', 'Light'];
 
-  // Effect to cycle through loading messages
-  useEffect(() => {
-    if (loading) {
-      setLoadingStep(0);
-      const interval = setInterval(() => {
-        setLoadingStep((prev) => (prev + 1) % LOADING_STEPS.length);
-      }, 1500); // Slower interval for readability
-      return () => clearInterval(interval);
-    }
-  }, [loading]);
-
   const groupedIngredients = useMemo(() => {
       const groups: Record<string, FridgeItem[]> = {};
       ingredients.forEach(item => {
           if (!groups[item.category]) groups[item.category] = [];
           groups[item.category].push(item);
       });
+      // Soonest to expire first so the waste-critical items are always visible
+      Object.values(groups).forEach(items => items.sort((a, b) => daysUntilExpiry(a) - daysUntilExpiry(b)));
       return groups;
   }, [ingredients]);
 
@@ -92,14 +108,21 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
 
   const fetchRecipes = async (isLoadMore = false) => {
     if (ingredients.length === 0) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     isLoadMore ? setLoadingMore(true) : setLoading(true);
-    
+    setError(null);
+    setStreamedCount(0);
+
     try {
       const existingIds = isLoadMore ? recipes.map(r => r.id) : [];
       const ingredientNames = ingredients.map(i => i.name);
-      const prioritizedNames = ingredients.filter(i => i.isPrioritized).map(i => i.name);
+      // Items close to expiry are prioritised automatically; starred items are added on top
+      const prioritizedNames = getPriorityIngredients(ingredients);
 
-      const res = await generateRecipes(
+      let received = 0;
+      await generateRecipes(
           ingredientNames, 
           dietary, 
           allergens, 
@@ -107,25 +130,41 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
           location, 
           existingIds,
           prioritizedNames,
-          savedRecipes // Pass saved recipes for better personalization
+          savedRecipes, // Pass saved recipes for better personalization
+          {
+              signal: controller.signal,
+              onRecipe: (recipe) => {
+                  // A new menu only replaces the old one once its first recipe arrives, so stopping early loses nothing
+                  const replace = !isLoadMore && received === 0;
+                  received++;
+                  setStreamedCount(received);
+                  setRecipes(prev => replace ? [recipe] : [...prev, recipe]);
+              }
+          }
       );
-      
-      if (isLoadMore) {
-        setRecipes(prev => [...prev, ...res]);
-      } else {
-        setRecipes(res);
-      }
     } catch (e) {
+      if (controller.signal.aborted) return;
       console.error(e);
+      setError(e instanceof ModelResponseError ? e.message : "Couldn't generate recipes. Please try again.");
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       isLoadMore ? setLoadingMore(false) : setLoading(false);
     }
   };
 
+  useEffect(() => {
+      if (!generateRequested) return;
+      onGenerateRequestHandled();
+      fetchRecipes(false);
+  }, [generateRequested]);
+
+  // Keeps the recipes that have already arrived
+  const stopGenerating = () => abortRef.current?.abort();
+
   const handleAddIngredient = () => {
-    const trimmed = newIngredient.trim();
-    if (trimmed && !ingredients.some(i => i.name.toLowerCase() === trimmed.toLowerCase())) {
-      setIngredients([...ingredients, { name: trimmed, category: 'Other', isPrioritized: false }]);
+    const { name, quantity, unit } = parseQuantityInput(newIngredient);
+    if (name && !ingredients.some(i => isSameItem(i.name, name))) {
+      setIngredients([...ingredients, createInventoryItem(name, 'Other', 'manual', { quantity, unit })]);
       setNewIngredient('');
       setExpandedCategories(prev => ({...prev, 'Other': true}));
     }
@@ -150,6 +189,13 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
   };
 
   const displayedRecipes = view === 'generated' ? recipes : savedRecipes;
+  // Every recipe is scored against the current inventory up front so the list can be ranked by it
+  const rankedRecipes = useMemo(() => rankRecipes(displayedRecipes, ingredients), [displayedRecipes, ingredients]);
+  const visibleRecipes = useMemo(() => sortRecipes(rankedRecipes, sortOptions), [rankedRecipes, sortOptions]);
+  const hiddenCount = rankedRecipes.length - visibleRecipes.length;
+  const filtersActive = sortOptions.maxMinutes !== null || sortOptions.difficulty !== null || sortOptions.readyOnly;
+
+  const updateSort = (patch: Partial<RecipeSortOptions>) => setSortOptions(prev => ({ ...prev, ...patch }));
   const categories = Object.keys(groupedIngredients).sort();
 
   return (
@@ -215,12 +261,25 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
                               
                               {isOpen && (
                                   <div className="p-3 bg-white flex flex-wrap gap-2 animate-fadeIn">
-                                      {groupedIngredients[cat].map(ing => (
+                                      {groupedIngredients[cat].map(ing => {
+                                          const days = daysUntilExpiry(ing);
+                                          const expiring = isExpiringSoon(ing);
+                                          return (
                                           <div 
                                               key={ing.name} 
-                                              className={`pl-3 pr-1 py-1 rounded-full text-xs font-medium border flex items-center gap-2 transition-all hover:shadow-sm ${ing.isPrioritized ? 'bg-orange-50 border-orange-200 text-orange-800' : 'bg-slate-50 text-slate-600 border-slate-200'}`}
+                                              title={ing.seenIn && ing.seenIn.length > 0 ? `Seen in ${ing.seenIn.join(', ')}` : undefined}
+                                              className={`pl-3 pr-1 py-1 rounded-full text-xs font-medium border flex items-center gap-2 transition-all hover:shadow-sm ${ing.isPrioritized || expiring ? 'bg-orange-50 border-orange-200 text-orange-800' : 'bg-slate-50 text-slate-600 border-slate-200'}`}
                                           >
                                               <span onClick={() => togglePriority(ing.name)} className="cursor-pointer truncate max-w-[100px]">{ing.name}</span>
+                                              <span className="text-[10px] text-slate-400 whitespace-nowrap">{formatQuantity(ing)}</span>
+                                              {days <= EXPIRY_BADGE_DAYS && (
+                                                  <span
+                                                      className={`text-[9px] font-bold px-1.5 py-0.5 rounded-full whitespace-nowrap ${days <= 1 ? 'bg-red-100 text-red-600' : expiring ? 'bg-orange-100 text-orange-600' : 'bg-slate-100 text-slate-500'}`}
+                                                      title={expiring ? "Auto-prioritised for recipes" : undefined}
+                                                  >
+                                                      {formatExpiry(days)}
+                                                  </span>
+                                              )}
                                               
                                               <div className="flex items-center gap-1 border-l border-slate-200/50 pl-1">
                                                   <button onClick={() => togglePriority(ing.name)} className="p-1 hover:scale-110 transition-transform group" title="Prioritize">
@@ -234,7 +293,8 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
                                                   </button>
                                               </div>
                                           </div>
-                                      ))}
+                                          );
+                                      })}
                                   </div>
                               )}
                           </div>
@@ -290,12 +350,11 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
             </div>
 
             <button 
-              onClick={() => fetchRecipes(false)}
-              disabled={loading}
-              className={`w-full py-4 bg-gradient-to-r ${loading ? 'from-slate-400 to-slate-500 cursor-not-allowed' : 'from-emerald-600 to-emerald-800 shadow-emerald-200 hover:shadow-emerald-300 hover:scale-[1.01] active:scale-[0.99]'} text-white rounded-xl font-bold text-sm shadow-lg transition-all flex items-center justify-center gap-2`}
+              onClick={() => loading ? stopGenerating() : fetchRecipes(false)}
+              className={`w-full py-4 bg-gradient-to-r ${loading ? 'from-slate-400 to-slate-500 hover:from-slate-500 hover:to-slate-600' : 'from-emerald-600 to-emerald-800 shadow-emerald-200 hover:shadow-emerald-300 hover:scale-[1.01] active:scale-[0.99]'} text-white rounded-xl font-bold text-sm shadow-lg transition-all flex items-center justify-center gap-2`}
             >
               {loading ? (
-                  <>🔥 Firing up the stove...</>
+                  <>⏹ Stop</>
               ) : recipes.length > 0 ? (
                   <>🔄 Remix Menu</>
               ) : (
@@ -305,7 +364,7 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
         </div>
         )}
 
-        {loading ? (
+        {loading && streamedCount === 0 ? (
           <div className="flex flex-col items-center justify-center py-24 px-6 animate-in fade-in duration-500">
              <div className="w-24 h-24 bg-white rounded-full flex items-center justify-center text-5xl shadow-[0_0_30px_rgba(16,185,129,0.2)] mb-8 animate-bounce relative">
                  👨‍🍳
@@ -314,25 +373,19 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
              
              <div className="space-y-2 text-center max-w-[280px]">
                  <h3 className="text-xl font-bold text-slate-800">Chef is thinking...</h3>
-                 {/* Increased height to h-12 to prevent text cutoff and added leading-tight */}
-                 <div className="h-12 relative overflow-hidden flex items-center justify-center">
-                    {LOADING_STEPS.map((step, index) => (
-                        <p 
-                            key={index}
-                            className={`text-emerald-600 font-medium text-sm leading-tight absolute w-full transition-all duration-500 transform ${
-                                index === loadingStep 
-                                ? 'translate-y-0 opacity-100' 
-                                : 'translate-y-full opacity-0'
-                            }`}
-                        >
-                            {step}
-                        </p>
-                    ))}
-                 </div>
+                 <p className="text-emerald-600 font-medium text-sm leading-tight">
+                     Each recipe appears here as soon as it's written.
+                 </p>
              </div>
           </div>
         ) : (
           <>
+              {view === 'generated' && error && (
+                  <div className="mb-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-sm text-red-600 font-medium text-center">
+                      {error}
+                  </div>
+              )}
+
               {view === 'saved' && displayedRecipes.length === 0 && (
                   <div className="text-center py-20 text-slate-400">
                       <p className="mb-2 text-4xl">🧑‍🍳</p>
@@ -340,10 +393,63 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
                   </div>
               )}
               
+              {displayedRecipes.length > 0 && (
+                  <div className="mb-6 space-y-2">
+                      <div className="flex gap-2 overflow-x-auto pb-1 hide-scrollbar">
+                          {SORT_OPTIONS.map(option => (
+                              <button
+                                  key={option.key}
+                                  onClick={() => updateSort({ sortBy: option.key })}
+                                  className={`px-3 py-1.5 rounded-full text-xs font-bold border whitespace-nowrap transition-all ${sortOptions.sortBy === option.key ? 'bg-emerald-600 border-emerald-600 text-white shadow-sm' : 'bg-white border-slate-200 text-slate-500 hover:border-emerald-200'}`}
+                              >
+                                  {option.label}
+                              </button>
+                          ))}
+                      </div>
+                      <div className="flex gap-2 items-center flex-wrap">
+                          <select
+                              value={sortOptions.maxMinutes ?? ''}
+                              onChange={(e) => updateSort({ maxMinutes: e.target.value ? Number(e.target.value) : null })}
+                              className="text-xs font-medium p-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 outline-none focus:border-emerald-400"
+                          >
+                              <option value="">Any time</option>
+                              {TIME_LIMITS.map(m => <option key={m} value={m}>≤ {m} min</option>)}
+                          </select>
+                          <select
+                              value={sortOptions.difficulty ?? ''}
+                              onChange={(e) => updateSort({ difficulty: (e.target.value || null) as Recipe['difficulty'] | null })}
+                              className="text-xs font-medium p-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 outline-none focus:border-emerald-400"
+                          >
+                              <option value="">Any difficulty</option>
+                              {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                          </select>
+                          <button
+                              onClick={() => updateSort({ readyOnly: !sortOptions.readyOnly })}
+                              className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${sortOptions.readyOnly ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-white border-slate-200 text-slate-500 hover:border-emerald-200'}`}
+                          >
+                              {sortOptions.readyOnly ? '✓ ' : ''}Nothing to buy
+                          </button>
+                      </div>
+                  </div>
+              )}
+
+              {hiddenCount > 0 && (
+                  <div className="mb-6 text-center text-xs text-slate-400">
+                      {visibleRecipes.length === 0 ? 'No recipes match these filters.' : `${hiddenCount} recipe${hiddenCount === 1 ? '' : 's'} hidden by filters.`}
+                      {filtersActive && (
+                          <button
+                              onClick={() => updateSort({ maxMinutes: null, difficulty: null, readyOnly: false })}
+                              className="ml-2 font-bold text-emerald-600 hover:text-emerald-800"
+                          >
+                              Clear filters
+                          </button>
+                      )}
+                  </div>
+              )}
+
               <div className="space-y-6 pb-4">
-              {displayedRecipes.map(recipe => {
+              {visibleRecipes.map(({ recipe, wasteScore, missingCount }) => {
                   const isSaved = savedRecipes.some(r => r.id === recipe.id);
-                  const missingCount = recipe.missingIngredients.length;
                   const totalIngredients = recipe.ingredients.length;
                   const availableCount = Math.max(0, totalIngredients - missingCount);
                   const progressPercent = Math.min(100, (availableCount / totalIngredients) * 100);
@@ -367,6 +473,14 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
                                    </span>
                                ))}
                           </div>
+                          {ingredients.length > 0 && (
+                              <span
+                                  className={`absolute top-3 left-3 text-[10px] font-bold px-2 py-1 rounded-md shadow-sm ${getWasteBadgeColor(wasteScore)}`}
+                                  title="Food waste score"
+                              >
+                                  🌱 {wasteScore}
+                              </span>
+                          )}
                           <button 
                               onClick={(e) => { e.stopPropagation(); onToggleSave(recipe); }}
                               className={`absolute top-3 right-3 p-2.5 rounded-full shadow-md hover:scale-110 transition-transform active:scale-95 ${isSaved ? 'bg-white text-red-500 animate-heart-pop' : 'bg-white/80 text-slate-400 hover:text-red-400'}`}
@@ -409,16 +523,33 @@ export const RecipeGenerator: React.FC<RecipeGeneratorProps> = ({
                       </div>
                   </div>
               )})}
+
+              {/* Next card still being written */}
+              {view === 'generated' && (loading || loadingMore) && (
+                  <div className="bg-white rounded-3xl border-2 border-dashed border-emerald-100 p-5 flex items-center justify-between animate-in fade-in">
+                      <div className="flex items-center gap-3">
+                          <div className="w-8 h-8 rounded-full border-4 border-emerald-100 border-t-emerald-500 animate-spin"></div>
+                          <span className="text-sm font-bold text-emerald-800">
+                              {streamedCount === 0 ? 'Mixing more options...' : `Writing recipe ${streamedCount + 1}...`}
+                          </span>
+                      </div>
+                      <button
+                          onClick={stopGenerating}
+                          className="px-3 py-1.5 text-xs font-bold text-slate-400 hover:text-red-500 transition-colors"
+                      >
+                          Stop
+                      </button>
+                  </div>
+              )}
               </div>
 
-              {view === 'generated' && recipes.length > 0 && (
+              {view === 'generated' && recipes.length > 0 && !loading && !loadingMore && (
                   <div className="mt-10 mb-8 flex justify-center">
                       <button 
                           onClick={() => fetchRecipes(true)}
-                          disabled={loadingMore}
-                          className="px-8 py-3 bg-white border border-slate-200 text-slate-600 rounded-full font-bold shadow-sm hover:bg-slate-50 hover:border-emerald-200 transition-all disabled:opacity-50"
+                          className="px-8 py-3 bg-white border border-slate-200 text-slate-600 rounded-full font-bold shadow-sm hover:bg-slate-50 hover:border-emerald-200 transition-all"
                       >
-                          {loadingMore ? 'Mixing more options...' : 'Load More Recipes'}
+                          Load More Recipes
                       </button>
                   </div>
               )}
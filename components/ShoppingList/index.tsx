@@ -1,12 +1,16 @@
 
 import React, { useState, useMemo } from 'react';
 import { TrashIcon, MapIcon, ListIcon, PhoneIcon, StarIcon } from '../Icons';
-import { findGroceryStores } from '../../services/geminiService';
-import { StoreLocation } from '../../types';
+import { findGroceryStores, ModelResponseError } from '../../services/geminiService';
+import { groupByAisle, formatShoppingItem } from '../../services/shopping';
+import { ShoppingItem, StoreLocation } from '../../types';
 
 interface ShoppingListProps {
-    items: string[];
-    onRemove: (i: string) => void;
+    items: ShoppingItem[];
+    onToggle: (item: ShoppingItem) => void;
+    onRemove: (item: ShoppingItem) => void;
+    onClearChecked: () => void;
+    recipeTitles: Record<string, string>;
     // Lifted state props for persistence
     stores: StoreLocation[];
     setStores: (s: StoreLocation[]) => void;
@@ -17,7 +21,10 @@ interface ShoppingListProps {
 
 export const ShoppingList: React.FC<ShoppingListProps> = ({ 
     items, 
+    onToggle,
     onRemove, 
+    onClearChecked,
+    recipeTitles,
     stores, 
     setStores, 
     viewMode, 
@@ -26,6 +33,13 @@ export const ShoppingList: React.FC<ShoppingListProps> = ({
 }) => {
     const [findingStores, setFindingStores] = useState(false);
 
+    const aisles = useMemo(() => groupByAisle(items), [items]);
+    const openCount = items.filter(i => !i.checked).length;
+    const checkedCount = items.length - openCount;
+
+    const sourceLabel = (item: ShoppingItem) =>
+        item.sourceRecipeIds.map(id => recipeTitles[id]).filter(Boolean).join(', ');
+
     const handleFindStores = () => {
         if (!userLoc) {
              alert("Location not available.");
@@ -40,6 +54,7 @@ export const ShoppingList: React.FC<ShoppingListProps> = ({
                 if (result.length > 0) setViewMode('map');
             } catch(e) {
                 console.error(e);
+                if (e instanceof ModelResponseError) alert(e.message);
             } finally {
                 setFindingStores(false);
             }
@@ -86,9 +101,16 @@ export const ShoppingList: React.FC<ShoppingListProps> = ({
                     <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                         <span>🛒</span> Shopping List
                     </h2>
-                    <span className="text-xs font-bold bg-emerald-100 text-emerald-700 px-2 py-1 rounded-full">
-                        {items.length} Items
-                    </span>
+                    <div className="flex items-center gap-2">
+                        {checkedCount > 0 && (
+                            <button onClick={onClearChecked} className="text-[10px] font-bold text-slate-500 hover:text-red-500 px-2 py-1 rounded-full border border-slate-200 transition-colors">
+                                Clear checked ({checkedCount})
+                            </button>
+                        )}
+                        <span className="text-xs font-bold bg-emerald-100 text-emerald-700 px-2 py-1 rounded-full">
+                            {openCount} Items
+                        </span>
+                    </div>
                 </div>
                 
                 <div className="overflow-y-auto flex-1 p-4 pb-20">
@@ -99,19 +121,36 @@ export const ShoppingList: React.FC<ShoppingListProps> = ({
                             <p className="text-xs mt-1">Add missing ingredients from recipes</p>
                         </div>
                     ) : (
-                        <ul className="space-y-3">
-                            {items.map((item, idx) => (
-                                <li key={`${item}-${idx}`} className="flex justify-between items-center p-3 bg-white rounded-xl shadow-sm border border-slate-100 group hover:border-emerald-200 transition-colors">
-                                    <div className="flex items-center gap-3">
-                                        {/* Removed the radio/checkbox visual div as requested */}
-                                        <span className="font-medium text-slate-700 capitalize ml-2">{item}</span>
-                                    </div>
-                                    <button onClick={() => onRemove(item)} className="text-slate-300 hover:text-red-500 p-2 transition-colors">
-                                        <TrashIcon />
-                                    </button>
-                                </li>
+                        <div className="space-y-5">
+                            {aisles.map(aisle => (
+                                <section key={aisle.category}>
+                                    <h3 className="text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-2 ml-1">{aisle.label}</h3>
+                                    <ul className="space-y-2">
+                                        {aisle.items.map((item, idx) => {
+                                            const forRecipes = sourceLabel(item);
+                                            return (
+                                                <li key={`${item.name}-${item.unit}-${idx}`} className={`flex justify-between items-center p-3 bg-white rounded-xl shadow-sm border border-slate-100 group hover:border-emerald-200 transition-colors ${item.checked ? 'opacity-60' : ''}`}>
+                                                    <button onClick={() => onToggle(item)} className="flex items-center gap-3 text-left flex-1 min-w-0">
+                                                        <span className={`w-5 h-5 flex-none rounded-md border-2 flex items-center justify-center text-[11px] font-bold transition-colors ${item.checked ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-300'}`}>
+                                                            {item.checked && '✓'}
+                                                        </span>
+                                                        <span className="min-w-0">
+                                                            <span className={`block font-medium capitalize truncate ${item.checked ? 'line-through text-slate-400' : 'text-slate-700'}`}>{formatShoppingItem(item)}</span>
+                                                            {item.checked
+                                                                ? <span className="block text-[10px] text-emerald-600 font-semibold">✓ Added to your inventory</span>
+                                                                : forRecipes && <span className="block text-[10px] text-slate-400 truncate">for {forRecipes}</span>}
+                                                        </span>
+                                                    </button>
+                                                    <button onClick={() => onRemove(item)} className="text-slate-300 hover:text-red-500 p-2 transition-colors">
+                                                        <TrashIcon />
+                                                    </button>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </section>
                             ))}
-                        </ul>
+                        </div>
                     )}
                 </div>
             </div>
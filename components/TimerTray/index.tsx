@@ -0,0 +1,62 @@
+
+import React, { useState, useEffect } from 'react';
+import { CookingTimer } from '../../types';
+import { formatCountdown, pauseTimer, remainingSeconds, resumeTimer } from '../../services/timers';
+
+interface TimerTrayProps {
+    timers: CookingTimer[];
+    setTimers: React.Dispatch<React.SetStateAction<CookingTimer[]>>;
+}
+
+// Every running timer, shown on each cooking step and on the recipe page. The alarms themselves are
+// raised by App, so timers keep going whichever screen is open.
+export const TimerTray: React.FC<TimerTrayProps> = ({ timers, setTimers }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        if (!timers.some(t => t.status === 'running')) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [timers]);
+
+    if (timers.length === 0) return null;
+
+    const update = (id: string, change: (timer: CookingTimer) => CookingTimer) =>
+        setTimers(prev => prev.map(t => t.id === id ? change(t) : t));
+
+    const dismiss = (id: string) => setTimers(prev => prev.filter(t => t.id !== id));
+
+    return (
+        <div className="flex gap-2 overflow-x-auto px-4 py-2 bg-slate-900">
+            {timers.map(timer => {
+                const left = remainingSeconds(timer, now);
+                const done = timer.status === 'done';
+                return (
+                    <div
+                        key={timer.id}
+                        className={`flex-none flex items-center gap-2 pl-3 pr-1 py-1 rounded-full text-xs font-bold ${done ? 'bg-red-500 text-white animate-pulse' : 'bg-white/10 text-white'}`}
+                    >
+                        <span className="max-w-[110px] truncate font-medium opacity-80">{timer.label}</span>
+                        <span className="tabular-nums">{done ? 'Done!' : formatCountdown(left)}</span>
+                        {!done && (
+                            <button
+                                onClick={() => update(timer.id, t => t.status === 'running' ? pauseTimer(t) : resumeTimer(t))}
+                                className="w-6 h-6 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+                                aria-label={timer.status === 'running' ? 'Pause timer' : 'Resume timer'}
+                            >
+                                {timer.status === 'running' ? '❚❚' : '▶'}
+                            </button>
+                        )}
+                        <button
+                            onClick={() => dismiss(timer.id)}
+                            className="w-6 h-6 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+                            aria-label="Dismiss timer"
+                        >
+                            ×
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
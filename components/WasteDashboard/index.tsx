@@ -0,0 +1,163 @@
+
+import React, { useMemo } from 'react';
+import { WasteHistory } from '../../types';
+import { AISLES } from '../../services/shopping';
+import {
+    cookingStreak,
+    exportWasteHistory,
+    mostWastedCategories,
+    summarizeWeeks,
+    wasteFreeWeeks
+} from '../../services/wasteHistory';
+
+interface WasteDashboardProps {
+    history: WasteHistory;
+    onClearHistory: () => void;
+}
+
+const WEEKS_SHOWN = 8;
+
+const formatKg = (kg: number) => kg < 1 ? `${Math.round(kg * 1000)} g` : `${kg.toFixed(1)} kg`;
+const formatEur = (eur: number) => `€${eur.toFixed(eur < 10 ? 2 : 0)}`;
+
+const categoryLabel = (category: string) => AISLES.find(a => a.category === category)?.label ?? category;
+
+export const WasteDashboard: React.FC<WasteDashboardProps> = ({ history, onClearHistory }) => {
+    const weeks = useMemo(() => summarizeWeeks(history, WEEKS_SHOWN), [history]);
+    const categories = useMemo(() => mostWastedCategories(history).slice(0, 4), [history]);
+    const streak = useMemo(() => cookingStreak(history), [history]);
+    const recentMeals = useMemo(() => [...history.cooked].reverse().slice(0, 10), [history]);
+
+    const thisWeek = weeks[weeks.length - 1];
+    const totalSavedKg = weeks.reduce((sum, w) => sum + w.savedKg, 0);
+    const totalSavedEur = weeks.reduce((sum, w) => sum + w.savedEur, 0);
+    const chartMax = Math.max(0.1, ...weeks.map(w => Math.max(w.savedKg, w.wastedKg)));
+    const maxCategoryKg = Math.max(0.1, ...categories.map(c => c.kg));
+
+    const handleExport = () => {
+        const blob = new Blob([exportWasteHistory(history)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `byte-waste-history-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClear = () => {
+        if (confirm('Delete your whole cooking and waste history? Export it first if you want to keep it.')) onClearHistory();
+    };
+
+    if (history.cooked.length === 0 && history.wasted.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center h-full p-8 text-center text-slate-400">
+                <p className="text-5xl mb-4 opacity-60">🌱</p>
+                <p className="font-medium">No history yet</p>
+                <p className="text-xs mt-1">Finish a recipe with "Done cooking" to start tracking the food you save.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 pb-24 space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <span>🌱</span> Your Impact
+                </h2>
+                <button onClick={handleExport} className="text-xs font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-3 py-1.5 rounded-full transition-colors">
+                    ⬇ Export
+                </button>
+            </div>
+
+            {/* --- Headline Numbers --- */}
+            <div className="grid grid-cols-3 gap-2">
+                <div className="bg-emerald-600 text-white rounded-2xl p-3 shadow-sm">
+                    <p className="text-[10px] font-bold uppercase opacity-80">Saved this week</p>
+                    <p className="text-lg font-bold">{formatKg(thisWeek.savedKg)}</p>
+                    <p className="text-[10px] opacity-80">≈ {formatEur(thisWeek.savedEur)}</p>
+                </div>
+                <div className="bg-white border border-slate-100 rounded-2xl p-3 shadow-sm">
+                    <p className="text-[10px] font-bold uppercase text-slate-400">Cooking streak</p>
+                    <p className="text-lg font-bold text-slate-800">🔥 {streak.current} {streak.current === 1 ? 'day' : 'days'}</p>
+                    <p className="text-[10px] text-slate-400">Best {streak.best}</p>
+                </div>
+                <div className="bg-white border border-slate-100 rounded-2xl p-3 shadow-sm">
+                    <p className="text-[10px] font-bold uppercase text-slate-400">Waste-free</p>
+                    <p className="text-lg font-bold text-slate-800">{wasteFreeWeeks(weeks)} wk</p>
+                    <p className="text-[10px] text-slate-400">in a row</p>
+                </div>
+            </div>
+
+            {/* --- Weekly Chart --- */}
+            <div className="bg-white border border-slate-100 rounded-2xl p-4 shadow-sm">
+                <div className="flex justify-between items-baseline mb-3">
+                    <h3 className="text-sm font-bold text-slate-800">Last {WEEKS_SHOWN} weeks</h3>
+                    <p className="text-[10px] text-slate-400">{formatKg(totalSavedKg)} saved · ≈ {formatEur(totalSavedEur)}</p>
+                </div>
+                <div className="flex items-end gap-2 h-28">
+                    {weeks.map(week => (
+                        <div key={week.weekStart.toISOString()} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                            <div className="w-full flex items-end gap-0.5 flex-1">
+                                <div className="flex-1 bg-emerald-400 rounded-t" style={{ height: `${(week.savedKg / chartMax) * 100}%` }} title={`Saved ${formatKg(week.savedKg)}`}></div>
+                                <div className="flex-1 bg-red-300 rounded-t" style={{ height: `${(week.wastedKg / chartMax) * 100}%` }} title={`Wasted ${formatKg(week.wastedKg)}`}></div>
+                            </div>
+                            <span className="text-[9px] text-slate-400">{week.weekStart.getDate()}/{week.weekStart.getMonth() + 1}</span>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-4 mt-3 text-[10px] text-slate-500">
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-emerald-400"></span> Rescued before expiry</span>
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-300"></span> Expired unused</span>
+                </div>
+            </div>
+
+            {/* --- Most Wasted --- */}
+            {categories.length > 0 && (
+                <div className="bg-white border border-slate-100 rounded-2xl p-4 shadow-sm">
+                    <h3 className="text-sm font-bold text-slate-800 mb-3">Most wasted</h3>
+                    <ul className="space-y-2">
+                        {categories.map(c => (
+                            <li key={c.category}>
+                                <div className="flex justify-between text-xs mb-1">
+                                    <span className="font-medium text-slate-700">{categoryLabel(c.category)}</span>
+                                    <span className="text-slate-400">{c.items} {c.items === 1 ? 'item' : 'items'} · {formatKg(c.kg)}</span>
+                                </div>
+                                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                    <div className="h-full bg-red-300 rounded-full" style={{ width: `${(c.kg / maxCategoryKg) * 100}%` }}></div>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* --- Cooking Log --- */}
+            {recentMeals.length > 0 && (
+                <div className="bg-white border border-slate-100 rounded-2xl p-4 shadow-sm">
+                    <h3 className="text-sm font-bold text-slate-800 mb-3">Recently cooked</h3>
+                    <ul className="divide-y divide-slate-50">
+                        {recentMeals.map(meal => (
+                            <li key={meal.id} className="py-2 flex justify-between items-center gap-2">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-slate-700 truncate">{meal.title}</p>
+                                    <p className="text-[10px] text-slate-400">
+                                        {new Date(meal.cookedAt).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+                                        {meal.used.length > 0 && ` · used ${meal.used.length} ${meal.used.length === 1 ? 'item' : 'items'}`}
+                                    </p>
+                                </div>
+                                <span className="text-[10px] font-bold bg-emerald-50 text-emerald-700 px-2 py-1 rounded-full whitespace-nowrap">🌱 {meal.wasteScore}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <p className="text-[10px] text-slate-400 text-center px-4">
+                Weights and prices are estimated from typical averages per food category. Your history is stored only on this device.
+            </p>
+            <button onClick={handleClear} className="w-full text-xs text-slate-400 hover:text-red-500 transition-colors py-2">
+                Clear history
+            </button>
+        </div>
+    );
+};
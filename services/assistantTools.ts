@@ -0,0 +1,38 @@
+
+import { AssistantAction } from "../types";
+import { ASSISTANT_TOOLS, validate } from "./schemas";
+
+// Turns a model function call into an action; unknown tools and invalid arguments are dropped (and logged)
+export const toAssistantAction = (name: string | undefined, args: unknown): AssistantAction | null => {
+  const tool = name ? ASSISTANT_TOOLS[name as AssistantAction['tool']] : undefined;
+  if (!tool) {
+    console.warn(`Assistant called unknown tool "${name}"`);
+    return null;
+  }
+  const issues = validate(tool.parameters, args ?? {});
+  if (issues.length > 0) {
+    console.warn(`Assistant called ${name} with invalid arguments`, issues);
+    return null;
+  }
+  return { tool: name, ...(args as object) } as AssistantAction;
+};
+
+// Chip label in the assistant transcript
+export const describeAction = (action: AssistantAction): string => {
+  switch (action.tool) {
+    case 'addToShoppingList':
+      return `🛒 Add ${action.items.join(', ')} to shopping list`;
+    case 'removeIngredient':
+      return `🗑️ Remove ${action.name} from inventory`;
+    case 'addIngredient':
+      return `➕ Add ${action.quantity ? `${action.quantity} ${action.unit || ''} `.replace(/\s+/g, ' ') : ''}${action.name} to inventory`;
+    case 'generateRecipes':
+      return `✨ Generate ${action.cravings?.length ? `${action.cravings.join(' & ').toLowerCase()} ` : ''}recipes`;
+    case 'startCookingMode':
+      return `👨‍🍳 Start cooking ${action.recipeTitle}`;
+    case 'setTimer':
+      return `⏱ ${action.minutes} min timer: ${action.label}`;
+    case 'saveRecipe':
+      return `❤️ Save ${action.recipeTitle}`;
+  }
+};
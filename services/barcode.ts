@@ -0,0 +1,203 @@
+
+// EAN-13 / UPC-A / EAN-8 decoding in the browser.
+// The native BarcodeDetector API is used where the browser has it (Chrome on Android, Safari 17+).
+// Everywhere else we fall back to a small scanline decoder: threshold a handful of horizontal rows,
+// turn each into bar/space run lengths and match them against the EAN digit patterns.
+// Codes are always returned as digit strings; UPC-A is returned in its 13-digit EAN form.
+
+const MAX_DECODE_WIDTH = 1280;
+const SCAN_ROWS = 24;
+// Worst acceptable per-digit deviation from the ideal pattern, in modules
+const MAX_DIGIT_ERROR = 1.6;
+
+// Module widths of each digit, in bar/space order as read left to right (L and R codes share widths)
+const L_PATTERNS = ['3211', '2221', '2122', '1411', '1132', '1231', '1114', '1312', '1213', '3112'].map(p => p.split('').map(Number));
+// G codes are the L codes mirrored
+const G_PATTERNS = L_PATTERNS.map(p => [...p].reverse());
+// Parity of the six left-hand digits (L = false, G = true) encodes the leading EAN-13 digit
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const matchDigit = (runs: number[], patterns: number[][]): { digit: number; error: number } => {
+  const total = runs.reduce((a, b) => a + b, 0);
+  let best = { digit: -1, error: Infinity };
+  patterns.forEach((pattern, digit) => {
+    const error = runs.reduce((sum, w, i) => sum + Math.abs((w / total) * 7 - pattern[i]), 0);
+    if (error < best.error) best = { digit, error };
+  });
+  return best;
+};
+
+const isGuard = (runs: number[], moduleWidth: number) =>
+  runs.every(w => w > moduleWidth * 0.4 && w < moduleWidth * 2);
+
+export const isValidEan = (code: string): boolean => {
+  if (!/^\d{8}$|^\d{12,13}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+  // Weights alternate 3,1,... counting from the digit next to the check digit
+  const sum = digits.reverse().reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// Runs must start on a bar. Returns the 13-digit code or null.
+const decodeEan13 = (runs: number[], start: number): string | null => {
+  if (start + 59 > runs.length) return null;
+  const moduleWidth = runs.slice(start, start + 59).reduce((a, b) => a + b, 0) / 95;
+  if (!isGuard(runs.slice(start, start + 3), moduleWidth)) return null;
+
+  let parity = '';
+  let digits = '';
+  let pos = start + 3;
+  for (let i = 0; i < 6; i++, pos += 4) {
+    const slice = runs.slice(pos, pos + 4);
+    const l = matchDigit(slice, L_PATTERNS);
+    const g = matchDigit(slice, G_PATTERNS);
+    const best = l.error <= g.error ? l : g;
+    if (best.error > MAX_DIGIT_ERROR) return null;
+    digits += best.digit;
+    parity += best === l ? 'L' : 'G';
+  }
+
+  if (!isGuard(runs.slice(pos, pos + 5), moduleWidth)) return null;
+  pos += 5;
+
+  for (let i = 0; i < 6; i++, pos += 4) {
+    const r = matchDigit(runs.slice(pos, pos + 4), L_PATTERNS);
+    if (r.error > MAX_DIGIT_ERROR) return null;
+    digits += r.digit;
+  }
+
+  if (!isGuard(runs.slice(pos, pos + 3), moduleWidth)) return null;
+
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first === -1) return null;
+  const code = first + digits;
+  return isValidEan(code) ? code : null;
+};
+
+const decodeEan8 = (runs: number[], start: number): string | null => {
+  if (start + 43 > runs.length) return null;
+  const moduleWidth = runs.slice(start, start + 43).reduce((a, b) => a + b, 0) / 67;
+  if (!isGuard(runs.slice(start, start + 3), moduleWidth)) return null;
+
+  let digits = '';
+  let pos = start + 3;
+  for (let half = 0; half < 2; half++) {
+    for (let i = 0; i < 4; i++, pos += 4) {
+      const r = matchDigit(runs.slice(pos, pos + 4), L_PATTERNS);
+      if (r.error > MAX_DIGIT_ERROR) return null;
+      digits += r.digit;
+    }
+    const guardLength = half === 0 ? 5 : 3;
+    if (!isGuard(runs.slice(pos, pos + guardLength), moduleWidth)) return null;
+    pos += guardLength;
+  }
+  return isValidEan(digits) ? digits : null;
+};
+
+// Bar/space run lengths of one grayscale row, starting with the first bar
+const toRuns = (row: Uint8ClampedArray): number[] => {
+  let min = 255;
+  let max = 0;
+  row.forEach(v => {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  });
+  if (max - min < 40) return [];
+  const threshold = (min + max) / 2;
+
+  const runs: number[] = [];
+  let dark = row[0] < threshold;
+  let length = 0;
+  let started = dark;
+  row.forEach(v => {
+    const isDark = v < threshold;
+    if (isDark === dark) {
+      length++;
+      return;
+    }
+    if (started) runs.push(length);
+    started = true;
+    dark = isDark;
+    length = 1;
+  });
+  if (started && dark) runs.push(length);
+  return runs;
+};
+
+const decodeRow = (row: Uint8ClampedArray): string | null => {
+  const runs = toRuns(row);
+  // Bars are at even indices
+  for (let i = 0; i < runs.length; i += 2) {
+    const code = decodeEan13(runs, i) || decodeEan8(runs, i);
+    if (code) return code;
+  }
+  return null;
+};
+
+const decodeImageData = ({ data, width, height }: ImageData): string | null => {
+  const row = new Uint8ClampedArray(width);
+  for (let r = 1; r <= SCAN_ROWS; r++) {
+    const y = Math.floor((height * r) / (SCAN_ROWS + 1));
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      row[x] = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+    }
+    const code = decodeRow(row);
+    if (code) return code;
+  }
+  return null;
+};
+
+type BarcodeSource = HTMLVideoElement | HTMLImageElement | ImageBitmap;
+
+const sourceSize = (source: BarcodeSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+
+// BarcodeDetector is not in the TypeScript DOM lib yet
+const getNativeDetector = (): { detect: (s: BarcodeSource) => Promise<{ rawValue: string }[]> } | null => {
+  const Detector = (window as any).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e'] });
+  } catch {
+    return null;
+  }
+};
+
+let nativeDetector: ReturnType<typeof getNativeDetector> | undefined;
+
+export const decodeBarcode = async (source: BarcodeSource): Promise<string | null> => {
+  if (nativeDetector === undefined) nativeDetector = getNativeDetector();
+  if (nativeDetector) {
+    try {
+      const [result] = await nativeDetector.detect(source);
+      // Widen UPC-A to EAN-13 so both spellings hit the same product table entry
+      if (result) return result.rawValue.length === 12 ? `0${result.rawValue}` : result.rawValue;
+    } catch (err) {
+      console.warn("BarcodeDetector failed, using fallback decoder", err);
+    }
+  }
+
+  const { width, height } = sourceSize(source);
+  if (!width || !height) return null;
+  const scale = Math.min(1, MAX_DECODE_WIDTH / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+export const decodeBarcodeFromFile = async (file: File): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await decodeBarcode(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,123 @@
+
+import { ChatMessage, ChatThread, RecipeNote } from "../types";
+import { ChatTurn } from "./providers";
+import { describeAction } from "./assistantTools";
+
+// Assistant conversations kept on the device: one thread per conversation, searchable and resumable.
+
+const TITLE_LENGTH = 60;
+// Older conversations beyond this are dropped, unless they hold a pinned answer
+const MAX_THREADS = 50;
+const SNIPPET_RADIUS = 40;
+
+export const threadTitle = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line;
+};
+
+export const createThread = (firstMessage: string, now: Date = new Date()): ChatThread => ({
+  id: `thread-${now.getTime()}`,
+  title: threadTitle(firstMessage),
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+  messages: [],
+});
+
+const hasPinned = (thread: ChatThread) => thread.messages.some(m => m.pinned);
+
+const byRecent = (a: ChatThread, b: ChatThread) => b.updatedAt.localeCompare(a.updatedAt);
+
+export const addThread = (threads: ChatThread[], thread: ChatThread): ChatThread[] => {
+  const sorted = [thread, ...threads].sort(byRecent);
+  return sorted.filter((t, i) => i < MAX_THREADS || hasPinned(t));
+};
+
+export const updateThreadMessages = (
+  threads: ChatThread[],
+  threadId: string,
+  change: (messages: ChatMessage[]) => ChatMessage[],
+  now: Date = new Date()
+): ChatThread[] =>
+  threads.map(t => t.id === threadId ? { ...t, messages: change(t.messages), updatedAt: now.toISOString() } : t);
+
+// Upgrades whatever is stored under ca_chatThreads. A reply that was still streaming when the page closed
+// is kept with whatever text it had; an empty one is dropped.
+export const migrateChatThreads = (raw: any): ChatThread[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(t => typeof t?.id === 'string' && Array.isArray(t.messages))
+    .map(t => ({
+      id: t.id,
+      title: typeof t.title === 'string' ? t.title : 'Conversation',
+      createdAt: typeof t.createdAt === 'string' ? t.createdAt : new Date().toISOString(),
+      updatedAt: typeof t.updatedAt === 'string' ? t.updatedAt : new Date().toISOString(),
+      messages: t.messages.filter((m: any) =>
+        (m?.role === 'user' || m?.role === 'model') && typeof m.text === 'string' && (m.text || m.actions?.length)),
+    }))
+    .filter(t => t.messages.length > 0)
+    .sort(byRecent);
+};
+
+export const migrateRecipeNotes = (raw: any): Record<string, RecipeNote[]> => {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const notes: Record<string, RecipeNote[]> = {};
+  Object.entries(raw).forEach(([recipeId, list]) => {
+    if (!Array.isArray(list)) return;
+    const valid = list.filter((n: any) => typeof n?.id === 'string' && typeof n.text === 'string');
+    if (valid.length > 0) notes[recipeId] = valid;
+  });
+  return notes;
+};
+
+// --- Resuming ---
+
+// How a message reads to the model, including what happened to its actions
+export const messageHistoryText = (m: ChatMessage): string =>
+  [m.text, ...(m.actions || []).map(p => `[${p.status === 'pending' ? 'Proposed' : p.status}: ${describeAction(p.action)}]`)]
+    .filter(Boolean)
+    .join('\n');
+
+// A thread's messages as plain turns, to seed a resumed chat session or give the intent router context
+export const toChatTurns = (messages: ChatMessage[]): ChatTurn[] =>
+  messages
+    .filter(m => !m.isError)
+    .map(m => ({ role: m.role, parts: [{ text: messageHistoryText(m) }] }))
+    .filter(turn => turn.parts[0].text);
+
+// --- Search ---
+
+export interface ThreadMatch {
+  thread: ChatThread;
+  snippet: string | null; // Text around the first hit in a message; null when the title matched or there's no query
+}
+
+const snippetAround = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const line = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${line}${end < text.length ? '…' : ''}`;
+};
+
+// Newest first; every word of the query has to appear somewhere in the thread
+export const searchThreads = (threads: ChatThread[], query: string): ThreadMatch[] => {
+  const sorted = [...threads].sort(byRecent);
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return sorted.map(thread => ({ thread, snippet: null }));
+
+  return sorted.flatMap(thread => {
+    const texts = [thread.title, ...thread.messages.map(m => m.text)].map(t => t.toLowerCase());
+    if (!words.every(word => texts.some(t => t.includes(word)))) return [];
+    if (words.every(word => texts[0].includes(word))) return [{ thread, snippet: null }];
+    const hit = thread.messages.find(m => m.text.toLowerCase().includes(words[0]));
+    const index = hit ? hit.text.toLowerCase().indexOf(words[0]) : -1;
+    return [{ thread, snippet: hit ? snippetAround(hit.text, index, words[0].length) : null }];
+  });
+};
+
+export interface PinnedAnswer {
+  thread: ChatThread;
+  message: ChatMessage;
+}
+
+export const pinnedAnswers = (threads: ChatThread[]): PinnedAnswer[] =>
+  [...threads].sort(byRecent).flatMap(thread => thread.messages.filter(m => m.pinned).map(message => ({ thread, message })));
@@ -0,0 +1,65 @@
+
+import { FridgeItem, Ingredient, Recipe, Substitution } from "../types";
+import { isSameItem } from "./inventory";
+import { findBestMatch, matchesIngredient } from "./recipes";
+import { convertUnit } from "./units";
+
+// One inventory item a cooked recipe used, in the item's own unit
+export interface Deduction {
+  itemName: string;
+  usedFor: string[]; // Recipe ingredients it stood in for, e.g. ["Spinach"] or ["Kale (for Spinach)"]
+  amount: number;
+  unit: string;
+  available: number;
+}
+
+// A chosen substitute stands in for the missing ingredient; "Buy" substitutes only count once they're in the inventory.
+// Exact names win, so "Milk" is taken from the milk even when "Coconut Milk" comes first in the inventory.
+const findSource = (ingredient: Ingredient, inventory: FridgeItem[], substitutions: Substitution[]) => {
+  const substitution = substitutions.find(s => isSameItem(s.missing, ingredient.name))
+    ?? substitutions.find(s => matchesIngredient(s.missing, ingredient.name));
+  const substitute = substitution && findBestMatch(inventory, substitution.substitute);
+  if (substitute) return { item: substitute, label: `${substitute.name} (for ${ingredient.name})` };
+  const item = findBestMatch(inventory, ingredient.name);
+  return item ? { item, label: ingredient.name } : null;
+};
+
+// Best guess at how much of the item went in. Amounts in other units ("200 g" of "2 pcs" chicken) guess one
+// piece; pantry staples measured by the spoon ("2 tbsp" of a bottle of oil) aren't used up.
+const estimateAmount = (ingredient: Ingredient, item: FridgeItem): number => {
+  if (ingredient.quantity === null) return 0;
+  const unit = item.unit === 'pcs' ? '' : item.unit;
+  const converted = convertUnit(ingredient.quantity, ingredient.unit, unit);
+  if (converted !== null) return Math.min(item.quantity, Math.round(converted * 100) / 100);
+  return item.category === 'Pantry' ? 0 : Math.min(item.quantity, 1);
+};
+
+// What "Done cooking" proposes to take out of the inventory; ingredients sharing an item are added up
+export const planDeductions = (recipe: Recipe, inventory: FridgeItem[], substitutions: Substitution[] = []): Deduction[] =>
+  recipe.ingredients.reduce<Deduction[]>((deductions, ingredient) => {
+    const source = findSource(ingredient, inventory, substitutions);
+    if (!source) return deductions;
+    const amount = ingredient.optional ? 0 : estimateAmount(ingredient, source.item);
+    const existing = deductions.find(d => d.itemName === source.item.name);
+    if (existing) {
+      return deductions.map(d => d === existing
+        ? { ...d, usedFor: [...d.usedFor, source.label], amount: Math.min(d.available, d.amount + amount) }
+        : d);
+    }
+    return [...deductions, {
+      itemName: source.item.name,
+      usedFor: [source.label],
+      amount,
+      unit: source.item.unit,
+      available: source.item.quantity,
+    }];
+  }, []);
+
+// Takes the (possibly adjusted) amounts off; items used up entirely leave the inventory
+export const applyDeductions = (inventory: FridgeItem[], deductions: Deduction[]): FridgeItem[] =>
+  inventory.flatMap(item => {
+    const deduction = deductions.find(d => isSameItem(d.itemName, item.name));
+    if (!deduction || deduction.amount <= 0) return [item];
+    const quantity = Math.round((item.quantity - deduction.amount) * 100) / 100;
+    return quantity > 0 ? [{ ...item, quantity }] : [];
+  });
@@ -0,0 +1,113 @@
+
+// Client-side key-frame selection for short fridge videos.
+// We sample the clip at a fixed rate, compare each sample to the last kept frame on a tiny
+// grayscale thumbnail, and keep only frames that show something noticeably different. When more
+// views than maxFrames turn up, an evenly spread subset is taken so the end of the clip is covered too.
+
+const SAMPLE_INTERVAL_S = 0.5;
+const THUMB_SIZE = 32;
+// Mean absolute luminance difference (0-255) above which a frame counts as a new view
+const CHANGE_THRESHOLD = 18;
+const OUTPUT_MAX_WIDTH = 1024;
+
+const loadVideo = (file: File): Promise<{ video: HTMLVideoElement; url: string }> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    video.src = url;
+    video.onloadeddata = () => resolve({ video, url });
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read video"));
+    };
+  });
+};
+
+const seek = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+};
+
+const thumbnail = (video: HTMLVideoElement, ctx: CanvasRenderingContext2D): Uint8ClampedArray => {
+  ctx.drawImage(video, 0, 0, THUMB_SIZE, THUMB_SIZE);
+  const { data } = ctx.getImageData(0, 0, THUMB_SIZE, THUMB_SIZE);
+  const gray = new Uint8ClampedArray(THUMB_SIZE * THUMB_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const difference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+const captureFrame = (video: HTMLVideoElement, name: string): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    const scale = Math.min(1, OUTPUT_MAX_WIDTH / video.videoWidth);
+    canvas.width = video.videoWidth * scale;
+    canvas.height = video.videoHeight * scale;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Could not get canvas context"));
+      return;
+    }
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error("Could not encode frame"));
+        return;
+      }
+      resolve(new File([blob], name, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.8);
+  });
+};
+
+export const extractKeyFrames = async (
+  file: File,
+  maxFrames: number,
+  onProgress?: (status: string) => void
+): Promise<File[]> => {
+  const { video, url } = await loadVideo(file);
+  try {
+    const thumbCanvas = document.createElement('canvas');
+    thumbCanvas.width = THUMB_SIZE;
+    thumbCanvas.height = THUMB_SIZE;
+    const thumbCtx = thumbCanvas.getContext('2d', { willReadFrequently: true });
+    if (!thumbCtx) throw new Error("Could not get canvas context");
+
+    const duration = isFinite(video.duration) ? video.duration : 0;
+    const views: number[] = []; // Times of samples that show a new view
+    let lastKept: Uint8ClampedArray | null = null;
+
+    for (let t = 0; t <= duration; t += SAMPLE_INTERVAL_S) {
+      if (onProgress) onProgress(`Picking key frames (${Math.round((t / Math.max(duration, 0.01)) * 100)}%)...`);
+      await seek(video, t);
+      const current = thumbnail(video, thumbCtx);
+      if (lastKept && difference(current, lastKept) < CHANGE_THRESHOLD) continue;
+      lastKept = current;
+      views.push(t);
+    }
+
+    const picked = views.length <= maxFrames
+      ? views
+      : Array.from({ length: maxFrames }, (_, i) => views[Math.round((i * (views.length - 1)) / Math.max(maxFrames - 1, 1))]);
+
+    const frames: File[] = [];
+    for (const t of picked) {
+      await seek(video, t);
+      frames.push(await captureFrame(video, `${file.name}-frame-${frames.length + 1}.jpg`));
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
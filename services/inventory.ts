@@ -0,0 +1,257 @@
+
+import { FridgeItem, InventorySource, ScanArea, isFridgeItem } from "../types";
+import { convertUnit } from "./units";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Items expiring within this many days are auto-prioritised for recipe generation
+export const EXPIRY_WARNING_DAYS = 3;
+
+const CATEGORY_SHELF_LIFE_DAYS: Record<FridgeItem['category'], number> = {
+  Produce: 7,
+  Protein: 3,
+  Dairy: 10,
+  Bakery: 5,
+  Pantry: 180,
+  Frozen: 90,
+  Beverages: 14,
+  Other: 14,
+};
+
+// Common items whose shelf life differs a lot from their category default (first match wins)
+const ITEM_SHELF_LIFE_DAYS: [RegExp, number][] = [
+  [/fish|salmon|tuna steak|shrimp|prawn|seafood/, 2],
+  [/chicken|turkey|mince|ground (beef|pork)/, 2],
+  [/spinach|lettuce|salad|rocket|arugula|basil|cilantro|coriander|parsley|berr/, 4],
+  [/banana|avocado|mushroom|tomato/, 5],
+  [/bacon|ham|sausage/, 7],
+  [/milk|cream(?! cheese)/, 7],
+  [/yogh?urt/, 14],
+  [/apple|carrot|cabbage|lemon|lime/, 21],
+  [/cheese|egg/, 28],
+  [/potato|onion|garlic/, 30],
+  [/butter/, 60],
+];
+
+export const estimateShelfLifeDays = (name: string, category: FridgeItem['category']): number => {
+  const lower = name.toLowerCase();
+  // Frozen goods keep regardless of what they are
+  if (category !== 'Frozen') {
+    const match = ITEM_SHELF_LIFE_DAYS.find(([pattern]) => pattern.test(lower));
+    if (match) return match[1];
+  }
+  return CATEGORY_SHELF_LIFE_DAYS[category] ?? CATEGORY_SHELF_LIFE_DAYS.Other;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+export const createInventoryItem = (
+  name: string,
+  category: FridgeItem['category'],
+  source: InventorySource,
+  overrides: Partial<FridgeItem> = {},
+  now: Date = new Date()
+): FridgeItem => ({
+  name,
+  category,
+  isPrioritized: false,
+  quantity: 1,
+  unit: 'pcs',
+  addedAt: now.toISOString(),
+  expiresAt: new Date(now.getTime() + estimateShelfLifeDays(name, category) * DAY_MS).toISOString(),
+  source,
+  ...overrides,
+});
+
+// Whole calendar days until the item expires; negative once it has expired
+export const daysUntilExpiry = (item: FridgeItem, now: Date = new Date()): number =>
+  Math.round((startOfDay(new Date(item.expiresAt)) - startOfDay(now)) / DAY_MS);
+
+export const isExpiringSoon = (item: FridgeItem, now: Date = new Date()): boolean =>
+  daysUntilExpiry(item, now) <= EXPIRY_WARNING_DAYS;
+
+export const formatExpiry = (days: number): string => {
+  if (days < 0) return 'Expired';
+  if (days === 0) return 'Expires today';
+  if (days === 1) return 'Expires tomorrow';
+  return `Expires in ${days} days`;
+};
+
+// Names to pass as "MUST USE" to recipe generation: anything close to expiry (soonest first),
+// followed by items the user starred manually.
+export const getPriorityIngredients = (items: FridgeItem[], now: Date = new Date()): string[] => {
+  const expiring = items
+    .filter(i => isExpiringSoon(i, now))
+    .sort((a, b) => daysUntilExpiry(a, now) - daysUntilExpiry(b, now))
+    .map(i => i.name);
+  const starred = items.filter(i => i.isPrioritized && !expiring.includes(i.name)).map(i => i.name);
+  return [...expiring, ...starred];
+};
+
+export const formatQuantity = (item: FridgeItem): string =>
+  item.unit === 'pcs' ? `×${item.quantity}` : `${item.quantity} ${item.unit}`;
+
+// Parses free text such as "500 g rice", "2 avocados" or "milk" from the "Add item..." box
+export const parseQuantityInput = (text: string): { name: string; quantity: number; unit: string } => {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^(\d+(?:[.,]\d+)?)\s*(kg|g|ml|l|lb|oz|pcs|pack|packs|bag|bags|can|cans|bottle|bottles|bunch|jar|jars)?\s+(.+)$/i);
+  if (!match) return { name: trimmed, quantity: 1, unit: 'pcs' };
+  return {
+    name: match[3].trim(),
+    quantity: parseFloat(match[1].replace(',', '.')),
+    unit: match[2] ? match[2].toLowerCase() : 'pcs',
+  };
+};
+
+// Upgrades whatever is stored under ca_ingredients (plain strings or pre-inventory FridgeItems)
+export const migrateInventory = (raw: unknown, now: Date = new Date()): FridgeItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry: any): FridgeItem[] => {
+    if (typeof entry === 'string') return [createInventoryItem(entry, 'Other', 'manual', {}, now)];
+    if (!isFridgeItem(entry)) return [];
+    const base = createInventoryItem(entry.name, entry.category, 'manual', {}, now);
+    return [{ ...base, ...entry }];
+  });
+};
+
+// --- Scan Merging ---
+
+// Canonical key for de-duplication: "Bell Peppers", "bell pepper" and " Bell  pepper " all map to "bell pepper".
+// Letters in any script are kept ("Jalapeño", "豆腐"); only punctuation and symbols are dropped.
+export const normalizeItemName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => {
+      if (word.length <= 3) return word;
+      if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+      if (/(ch|sh|x|ss|o)es$/.test(word)) return word.slice(0, -2);
+      // "ss" and "us" endings aren't plurals: "Swiss", "Hummus", "Asparagus", "Couscous"
+      if (word.endsWith('s') && !/(ss|us)$/.test(word)) return word.slice(0, -1);
+      return word;
+    })
+    .join(' ');
+
+export const isSameItem = (a: string, b: string): boolean => normalizeItemName(a) === normalizeItemName(b);
+
+export interface ScanDiff {
+  added: FridgeItem[]; // In the new scan, not in the inventory
+  present: FridgeItem[]; // Already in the inventory (existing entries, metadata untouched)
+  missing: FridgeItem[]; // Items previously scanned in the same area that this scan did not see
+  area: ScanArea;
+}
+
+// A pantry scan says nothing about the fridge, so only items last scanned in `area` can go missing.
+// Items scanned before areas were recorded are never reported; they pick up an area once a scan sees them again.
+export const diffScan = (existing: FridgeItem[], scanned: FridgeItem[], area: ScanArea): ScanDiff => {
+  const existingKeys = new Set(existing.map(i => normalizeItemName(i.name)));
+  const scannedKeys = new Set(scanned.map(i => normalizeItemName(i.name)));
+
+  const added: FridgeItem[] = [];
+  const seen = new Set<string>();
+  scanned.forEach(item => {
+    const key = normalizeItemName(item.name);
+    if (existingKeys.has(key) || seen.has(key)) return;
+    seen.add(key);
+    added.push(item);
+  });
+
+  return {
+    added,
+    present: existing.filter(i => scannedKeys.has(normalizeItemName(i.name))),
+    // Only scan-sourced items can go "missing"; manual and receipt entries were never in a photo
+    missing: existing.filter(i => i.source === 'scan' && i.scanArea === area && !scannedKeys.has(normalizeItemName(i.name))),
+    area,
+  };
+};
+
+export const mergeScan = (existing: FridgeItem[], diff: ScanDiff, removeMissing = false): FridgeItem[] => {
+  const kept = (removeMissing ? existing.filter(i => !diff.missing.includes(i)) : existing)
+    .map(i => i.source === 'scan' && !i.scanArea && diff.present.includes(i) ? { ...i, scanArea: diff.area } : i);
+  return [...kept, ...diff.added];
+};
+
+// Collapses detections of the same item across photos/frames into one entry.
+// Overlapping photos usually show the same physical item, so quantities take the max, not the sum.
+export const mergeDuplicateDetections = (items: FridgeItem[]): FridgeItem[] => {
+  const byKey = new Map<string, FridgeItem>();
+  items.forEach(item => {
+    const key = normalizeItemName(item.name);
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...item });
+      return;
+    }
+    byKey.set(key, {
+      ...existing,
+      quantity: Math.max(existing.quantity, item.quantity),
+      seenIn: Array.from(new Set([...(existing.seenIn || []), ...(item.seenIn || [])])),
+      confidence: existing.confidence === undefined && item.confidence === undefined
+        ? undefined
+        : Math.max(existing.confidence ?? 0, item.confidence ?? 0),
+      boxes: [...(existing.boxes || []), ...(item.boxes || [])],
+    });
+  });
+  return Array.from(byKey.values());
+};
+
+// --- Detection Review ---
+
+// Scan detections below this confidence are held back until the user confirms them
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const needsReview = (item: FridgeItem): boolean =>
+  item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+// Drops the review-only fields once a detection is accepted into the inventory
+export const finalizeDetection = ({ confidence, boxes, ...item }: FridgeItem): FridgeItem => item;
+
+// --- Purchases ---
+
+// True when a free-text shopping list entry ("2 Chicken Breasts", "Milk (semi skimmed)") refers to the item
+export const mentionsItem = (text: string, name: string): boolean => {
+  const key = normalizeItemName(name);
+  return key.length > 0 && ` ${normalizeItemName(text)} `.includes(` ${key} `);
+};
+
+// How much a purchase adds to the stock it's merged into, in that stock's unit. A bottle ("1 pcs") can't be
+// added to "500 ml" of oil, so it adds nothing there; only the expiry moves.
+export const purchasedAmount = (current: FridgeItem | undefined, item: FridgeItem): { quantity: number; unit: string } => {
+  if (!current) return { quantity: item.quantity, unit: item.unit };
+  return { quantity: convertUnit(item.quantity, item.unit, current.unit) ?? 0, unit: current.unit };
+};
+
+// Adds bought items to the inventory. Restocking something already there tops up the quantity in the
+// stock's own unit (amounts that don't convert leave it as it is); the earlier expiry is kept so older stock is used first.
+export const mergePurchases = (existing: FridgeItem[], purchased: FridgeItem[]): FridgeItem[] => {
+  const next = [...existing];
+  purchased.forEach(item => {
+    const index = next.findIndex(i => isSameItem(i.name, item.name));
+    if (index === -1) {
+      next.push(item);
+      return;
+    }
+    const current = next[index];
+    next[index] = {
+      ...current,
+      quantity: Math.round((current.quantity + purchasedAmount(current, item).quantity) * 100) / 100,
+      expiresAt: current.expiresAt < item.expiresAt ? current.expiresAt : item.expiresAt,
+    };
+  });
+  return next;
+};
+
+// Takes a purchase back out (a shopping line unticked by mistake). Only the amount the purchase added
+// comes off, so stock from before it stays; the item goes once nothing is left.
+export const removePurchase = (existing: FridgeItem[], name: string, added: { quantity: number; unit: string }): FridgeItem[] => {
+  const current = existing.find(i => isSameItem(i.name, name));
+  const amount = current && convertUnit(added.quantity, added.unit, current.unit);
+  if (!current || !amount) return existing;
+  const quantity = Math.round((current.quantity - amount) * 100) / 100;
+  return quantity > 0
+    ? existing.map(i => i === current ? { ...i, quantity } : i)
+    : existing.filter(i => i !== current);
+};
@@ -0,0 +1,118 @@
+
+// The Markdown subset the assistant writes: headings, paragraphs, lists, tables, code, bold/italic and links.
+// Parsed into plain data so the renderer never injects HTML; partial input (mid-stream) parses too.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkdownInline[] }
+  | { type: 'italic'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'paragraph'; lines: MarkdownInline[][] } // Single line breaks are kept; models use them for short lists
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'table'; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+// Only http(s) links, so a reply can't produce javascript: URLs
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)/g;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index > last) nodes.push({ type: 'text', text: text.slice(last, match.index) });
+    const [, code, bold, boldAlt, linkText, href, italic, italicAlt] = match;
+    if (code !== undefined) nodes.push({ type: 'code', text: code });
+    else if (bold !== undefined || boldAlt !== undefined) nodes.push({ type: 'bold', children: parseInline(bold ?? boldAlt) });
+    else if (linkText !== undefined) nodes.push({ type: 'link', href, children: parseInline(linkText) });
+    else nodes.push({ type: 'italic', children: parseInline(italic ?? italicAlt) });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+  return nodes;
+};
+
+const FENCE = /^\s*```/;
+const HEADING = /^\s*(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string): MarkdownInline[][] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => parseInline(cell.trim()));
+
+const isTableStart = (lines: string[], i: number) =>
+  TABLE_ROW.test(lines[i]) && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) =>
+  [FENCE, HEADING, RULE, BULLET, NUMBERED].some(pattern => pattern.test(lines[i])) || isTableStart(lines, i);
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++; // Closing fence; still missing while the reply streams in
+      blocks.push({ type: 'code', text: code.join('\n').replace(/\n+$/, '') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i])) rows.push(splitRow(lines[i++]));
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const numbered = line.match(NUMBERED);
+    if (numbered || BULLET.test(line)) {
+      const pattern = numbered ? NUMBERED : BULLET;
+      const items: MarkdownInline[][] = [];
+      // Nested items are flattened into the same list
+      while (i < lines.length && pattern.test(lines[i])) {
+        const item = lines[i++].match(pattern)!;
+        items.push(parseInline(numbered ? item[2] : item[1]));
+      }
+      blocks.push({ type: 'list', ordered: !!numbered, start: numbered ? Number(numbered[1]) : 1, items });
+      continue;
+    }
+
+    const paragraph: MarkdownInline[][] = [];
+    do {
+      paragraph.push(parseInline(lines[i++].trim()));
+    } while (i < lines.length && lines[i].trim() && !startsBlock(lines, i));
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+  return blocks;
+};
@@ -0,0 +1,137 @@
+
+import { FridgeItem, Ingredient, MealPlan, MealSlot, PlannedMeal, Recipe } from "../types";
+import { daysUntilExpiry, isSameItem } from "./inventory";
+import { ShoppingEntry } from "./shopping";
+import { findBestMatch, isIngredientMissing } from "./recipes";
+import { canonicalUnit } from "./units";
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+export const PLAN_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const createMealPlan = (now: Date = new Date()): MealPlan => ({
+  weekStart: startOfDay(now).toISOString(),
+  meals: [],
+});
+
+export const planDate = (plan: MealPlan, day: number): Date => {
+  const date = new Date(plan.weekStart);
+  date.setDate(date.getDate() + day);
+  return date;
+};
+
+// The plan always starts today: days already in the past drop off and the rest move up.
+// Also upgrades whatever is stored under ca_mealPlan.
+export const migrateMealPlan = (raw: unknown, now: Date = new Date()): MealPlan => {
+  const stored = raw as MealPlan | null;
+  if (!stored || typeof stored.weekStart !== 'string' || !Array.isArray(stored.meals)) return createMealPlan(now);
+  const today = startOfDay(now);
+  const elapsed = Math.round((today.getTime() - startOfDay(new Date(stored.weekStart)).getTime()) / DAY_MS);
+  if (elapsed <= 0) return stored;
+  return {
+    weekStart: today.toISOString(),
+    meals: stored.meals
+      .filter(m => m.day >= elapsed)
+      .map(m => ({ ...m, day: m.day - elapsed })),
+  };
+};
+
+export const getMeal = (plan: MealPlan, day: number, slot: MealSlot): PlannedMeal | undefined =>
+  plan.meals.find(m => m.day === day && m.slot === slot);
+
+// Puts a recipe in a slot, replacing whatever was there; null clears the slot
+export const setMeal = (plan: MealPlan, day: number, slot: MealSlot, recipe: Recipe | null): MealPlan => ({
+  ...plan,
+  meals: [
+    ...plan.meals.filter(m => !(m.day === day && m.slot === slot)),
+    ...(recipe ? [{ day, slot, recipe }] : []),
+  ],
+});
+
+export const getOpenSlots = (plan: MealPlan): { day: number; slot: MealSlot }[] =>
+  Array.from({ length: PLAN_DAYS }, (_, day) => MEAL_SLOTS.map(slot => ({ day, slot })))
+    .flat()
+    .filter(({ day, slot }) => !getMeal(plan, day, slot));
+
+// --- Consumption ---
+
+export interface PlannedUse {
+  item: string;
+  daysLeft: number; // on the day it is cooked; negative means it will have gone off by then
+}
+
+export interface PlanDaySummary {
+  day: number;
+  uses: PlannedUse[];
+  toBuy: Ingredient[];
+  // Same items per recipe, unmerged, so the shopping list can track which meal needs what
+  purchases: ShoppingEntry[];
+}
+
+const sortMeals = (meals: PlannedMeal[]) =>
+  [...meals].sort((a, b) => a.day - b.day || MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot));
+
+// Adds up amounts of the same ingredient; different units are kept as separate lines
+const mergeIngredients = (ingredients: Ingredient[]): Ingredient[] =>
+  ingredients.reduce<Ingredient[]>((merged, ing) => {
+    const existing = merged.find(m => isSameItem(m.name, ing.name) && canonicalUnit(m.unit) === canonicalUnit(ing.unit));
+    if (!existing) return [...merged, { ...ing, preparation: '' }];
+    if (existing.quantity === null || ing.quantity === null) return merged;
+    return merged.map(m => m === existing ? { ...m, quantity: (m.quantity as number) + (ing.quantity as number) } : m);
+  }, []);
+
+// What each day of the plan takes from the inventory and what has to be bought for it.
+// Quantities aren't tracked across meals, so an item used on two days is listed on both.
+// Recipes were generated against an earlier inventory, so "to buy" is the recipe's own missing list
+// minus anything the inventory has since gained; items that will have expired by the day also need buying.
+export const summarizePlan = (plan: MealPlan, inventory: FridgeItem[], now: Date = new Date()): PlanDaySummary[] =>
+  Array.from({ length: PLAN_DAYS }, (_, day) => {
+    const meals = sortMeals(plan.meals.filter(m => m.day === day));
+    const uses: PlannedUse[] = [];
+    const purchases: ShoppingEntry[] = [];
+    meals.forEach(({ recipe }) => {
+      recipe.ingredients.forEach(ing => {
+        const item = findBestMatch(inventory, ing.name);
+        if (item) {
+          const daysLeft = daysUntilExpiry(item, now) - day;
+          if (!uses.some(u => u.item === item.name)) uses.push({ item: item.name, daysLeft });
+          if (daysLeft < 0 && !ing.optional) purchases.push({ ingredient: ing, recipeId: recipe.id });
+        } else if (isIngredientMissing(recipe, ing) && !ing.optional) {
+          purchases.push({ ingredient: ing, recipeId: recipe.id });
+        }
+      });
+    });
+    return { day, uses, toBuy: mergeIngredients(purchases.map(p => p.ingredient)), purchases };
+  });
+
+export const planShoppingList = (summaries: PlanDaySummary[]): Ingredient[] =>
+  mergeIngredients(summaries.flatMap(s => s.toBuy));
+
+// Perishables (expiring within the planned week) that no meal uses before they go off
+export const getUnplannedPerishables = (summaries: PlanDaySummary[], inventory: FridgeItem[], now: Date = new Date()): FridgeItem[] =>
+  inventory
+    .filter(item => {
+      const daysLeft = daysUntilExpiry(item, now);
+      return daysLeft >= 0 && daysLeft < PLAN_DAYS;
+    })
+    .filter(item => !summaries.some(s => s.uses.some(u => u.item === item.name && u.daysLeft >= 0)))
+    .sort((a, b) => daysUntilExpiry(a, now) - daysUntilExpiry(b, now));
+
+// --- Auto-planning ---
+
+export interface MealSuggestion {
+  day: number;
+  slot: MealSlot;
+  recipeId: string;
+}
+
+// Fills open slots from the model's suggestions; unknown recipes and already planned slots are ignored
+export const applySuggestions = (plan: MealPlan, suggestions: MealSuggestion[], candidates: Recipe[]): MealPlan =>
+  suggestions.reduce((next, s) => {
+    const recipe = candidates.find(r => r.id === s.recipeId);
+    if (!recipe || s.day < 0 || s.day >= PLAN_DAYS || getMeal(next, s.day, s.slot)) return next;
+    return setMeal(next, s.day, s.slot, recipe);
+  }, plan);
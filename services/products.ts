@@ -0,0 +1,76 @@
+
+import { FridgeItem } from "../types";
+import { createInventoryItem, estimateShelfLifeDays } from "./inventory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Packaged goods keyed by EAN-13 (UPC-A codes are stored with a leading 0).
+// The bundled table covers common staples; products identified by the AI fallback are saved by the app
+// under ca_customProducts and passed to lookupProduct, so each unknown code only costs one model call.
+export interface ProductInfo {
+  barcode: string;
+  name: string;
+  category: FridgeItem['category'];
+  allergens: string[];
+  shelfLifeDays: number; // Typical unopened shelf life
+  quantity?: number; // Pack size, e.g. 400 (g)
+  unit?: string;
+}
+
+export const BUNDLED_PRODUCTS: ProductInfo[] = [
+  { barcode: '8076809513753', name: 'Spaghetti', category: 'Pantry', allergens: ['gluten'], shelfLifeDays: 730, quantity: 500, unit: 'g' },
+  { barcode: '8076802085738', name: 'Penne Rigate', category: 'Pantry', allergens: ['gluten'], shelfLifeDays: 730, quantity: 500, unit: 'g' },
+  { barcode: '8000320010057', name: 'Chopped Tomatoes', category: 'Pantry', allergens: [], shelfLifeDays: 730, quantity: 400, unit: 'g' },
+  { barcode: '5000157024671', name: 'Baked Beans', category: 'Pantry', allergens: [], shelfLifeDays: 730, quantity: 415, unit: 'g' },
+  { barcode: '5000157062758', name: 'Tomato Ketchup', category: 'Pantry', allergens: [], shelfLifeDays: 365, quantity: 460, unit: 'g' },
+  { barcode: '0051500255162', name: 'Peanut Butter', category: 'Pantry', allergens: ['peanuts'], shelfLifeDays: 270, quantity: 340, unit: 'g' },
+  { barcode: '0016000275287', name: 'Cheerios', category: 'Pantry', allergens: [], shelfLifeDays: 270, quantity: 340, unit: 'g' },
+  { barcode: '5010029000016', name: 'Weetabix', category: 'Pantry', allergens: ['gluten'], shelfLifeDays: 365, quantity: 24, unit: 'pcs' },
+  { barcode: '0041390000805', name: 'Soy Sauce', category: 'Pantry', allergens: ['soy', 'gluten'], shelfLifeDays: 730, quantity: 296, unit: 'ml' },
+  { barcode: '5000232823366', name: 'Coconut Milk', category: 'Pantry', allergens: [], shelfLifeDays: 730, quantity: 400, unit: 'ml' },
+  { barcode: '0048001213487', name: 'Mayonnaise', category: 'Pantry', allergens: ['egg'], shelfLifeDays: 180, quantity: 400, unit: 'g' },
+  { barcode: '3017620422003', name: 'Hazelnut Spread', category: 'Pantry', allergens: ['milk', 'nuts', 'soy'], shelfLifeDays: 365, quantity: 400, unit: 'g' },
+  { barcode: '5000128104517', name: 'Chickpeas', category: 'Pantry', allergens: [], shelfLifeDays: 730, quantity: 400, unit: 'g' },
+  { barcode: '0024000016939', name: 'Sweetcorn', category: 'Pantry', allergens: [], shelfLifeDays: 730, quantity: 340, unit: 'g' },
+  { barcode: '5449000000996', name: 'Cola', category: 'Beverages', allergens: [], shelfLifeDays: 270, quantity: 330, unit: 'ml' },
+  { barcode: '5000295142893', name: 'Frozen Peas', category: 'Frozen', allergens: [], shelfLifeDays: 365, quantity: 900, unit: 'g' },
+];
+
+export const lookupProduct = (barcode: string, extra: ProductInfo[] = []): ProductInfo | null => {
+  // Later entries win so user-learned products can correct the bundled table
+  const table = [...BUNDLED_PRODUCTS, ...extra];
+  for (let i = table.length - 1; i >= 0; i--) {
+    if (table[i].barcode === barcode) return table[i];
+  }
+  return null;
+};
+
+export const productToItem = (product: ProductInfo, now: Date = new Date()): FridgeItem =>
+  createInventoryItem(product.name, product.category, 'barcode', {
+    quantity: product.quantity ?? 1,
+    unit: product.unit || 'pcs',
+    allergens: product.allergens,
+    expiresAt: new Date(now.getTime() + product.shelfLifeDays * DAY_MS).toISOString(),
+  }, now);
+
+// Upgrades whatever is stored under ca_customProducts; entries without a barcode and name can't be looked up
+export const migrateCustomProducts = (raw: unknown): ProductInfo[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((p: any) => typeof p?.barcode === 'string' && typeof p.name === 'string')
+    .map(p => {
+      const category = p.category || 'Other';
+      return {
+        ...p,
+        category,
+        allergens: Array.isArray(p.allergens) ? p.allergens : [],
+        shelfLifeDays: typeof p.shelfLifeDays === 'number' ? p.shelfLifeDays : estimateShelfLifeDays(p.name, category),
+      };
+    });
+};
+
+// Products containing any allergen the user listed (free text such as "nuts, gluten")
+export const matchAllergens = (product: ProductInfo, userAllergens: string): string[] => {
+  const listed = userAllergens.toLowerCase().split(/[,;]/).map(a => a.trim()).filter(Boolean);
+  return product.allergens.filter(a => listed.some(l => a.toLowerCase().includes(l) || l.includes(a.toLowerCase())));
+};
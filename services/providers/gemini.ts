@@ -0,0 +1,915 @@
+
+import { GoogleGenAI, Modality, Type, Session, LiveServerMessage, Schema, GenerateContentConfig, ContentListUnion, Part, Content, FunctionCall, FunctionDeclaration, FunctionCallingConfigMode, GroundingChunk } from "@google/genai";
+import { FridgeItem, Recipe, Substitution, WasteScore, StoreLocation, BoundingBox, SearchResult, AssistantAction, ProposedAction } from "../../types";
+import { AIProvider, RecipeRequest, RecipeStreamOptions, MealPlanRequest, SubstitutionRequest, ChatTurn, ChatReply, ChatSendOptions, ChatSession, AssistantIntent, SearchAnswer, ScanImage, ReceiptScan, LiveConnectOptions, LiveConnection } from "./types";
+import { createInventoryItem, mergeDuplicateDetections } from "../inventory";
+import { ProductInfo } from "../products";
+import { migrateRecipes } from "../recipes";
+import { MealSuggestion } from "../mealPlan";
+import { toAssistantAction } from "../assistantTools";
+import {
+  SchemaNode,
+  ModelResponseError,
+  parseWithSchema,
+  validate,
+  extractCompleteArrayItems,
+  FridgeScanResponseSchema,
+  ReceiptResponseSchema,
+  ProductIdentificationSchema,
+  RecipeSchema,
+  RecipesResponseSchema,
+  SubstitutionsResponseSchema,
+  MealPlanResponseSchema,
+  ASSISTANT_TOOLS,
+  AssistantIntentResponseSchema,
+  StoresResponseSchema
+} from "../schemas";
+
+let client: GoogleGenAI | null = null;
+
+// Lazily created so that selecting another provider never requires a Gemini key
+export const getGeminiClient = (): GoogleGenAI => {
+  if (!client) {
+    // Ensure API key is available
+    const apiKey = process.env.API_KEY || '';
+    if (!apiKey) {
+      console.error("API_KEY is missing from environment variables.");
+    }
+    client = new GoogleGenAI({ apiKey });
+  }
+  return client;
+};
+
+// --- Helpers ---
+const resizeAndCompressImage = (file: File, maxWidth = 1024): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = (event) => {
+      const img = new Image();
+      img.src = event.target?.result as string;
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        let width = img.width;
+        let height = img.height;
+
+        if (width > maxWidth) {
+            height = height * (maxWidth / width);
+            width = maxWidth;
+        }
+
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            reject(new Error("Could not get canvas context"));
+            return;
+        }
+        ctx.drawImage(img, 0, 0, width, height);
+        
+        // Compress to JPEG 0.7 quality which is efficient for API transmission
+        const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
+        resolve(dataUrl.split(',')[1]);
+      };
+      img.onerror = (error) => reject(error);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// Converts a shared schema definition into Gemini's responseSchema format
+const toGeminiSchema = (node: SchemaNode): Schema => {
+  const base: Schema = { description: node.description, nullable: node.optional || undefined };
+  switch (node.type) {
+    case 'string':
+      return { ...base, type: Type.STRING, enum: node.enum ? [...node.enum] : undefined };
+    case 'number':
+      return { ...base, type: Type.NUMBER, minimum: node.minimum, maximum: node.maximum };
+    case 'boolean':
+      return { ...base, type: Type.BOOLEAN };
+    case 'array':
+      return { ...base, type: Type.ARRAY, items: toGeminiSchema(node.items) };
+    case 'object':
+      return {
+        ...base,
+        type: Type.OBJECT,
+        properties: Object.fromEntries(Object.entries(node.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+        required: Object.entries(node.properties).filter(([, v]) => !v.optional).map(([k]) => k),
+        propertyOrdering: Object.keys(node.properties),
+      };
+  }
+};
+
+const buildRepairPrompt = (previous: string | undefined, issues: string[]) => `
+Your previous response did not match the required JSON schema.
+
+Problems found:
+${issues.slice(0, 20).map(i => `- ${i}`).join('\n')}
+
+Previous response:
+${previous || '(empty)'}
+
+Return the corrected JSON ONLY. Keep all valid content, fix only what is listed above.
+`;
+
+// Calls the model, validates the reply against `schema`, and gives the model one chance to repair
+// an invalid payload before failing with a ModelResponseError.
+// Tool-grounded calls (Maps/Search) cannot use responseSchema, so they are validated after the fact only.
+const generateValidated = async <T>(
+  operation: string,
+  schema: SchemaNode,
+  request: { model: string; contents: ContentListUnion; config?: GenerateContentConfig },
+  useResponseSchema = true
+): Promise<T> => {
+  const config: GenerateContentConfig = useResponseSchema
+    ? { ...request.config, responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) }
+    : { ...request.config };
+
+  const response = await getGeminiClient().models.generateContent({ ...request, config });
+  const first = parseWithSchema<T>(schema, response.text);
+  if (first.issues.length === 0) return first.value;
+
+  return repairResponse<T>(operation, schema, request.model, config, response.text, first.issues);
+};
+
+// The single repair round shared by generateValidated and streamed calls
+const repairResponse = async <T>(
+  operation: string,
+  schema: SchemaNode,
+  model: string,
+  config: GenerateContentConfig,
+  previous: string | undefined,
+  issues: string[]
+): Promise<T> => {
+  console.warn(`Invalid ${operation} response, attempting repair:`, issues);
+  const repaired = await getGeminiClient().models.generateContent({
+    model,
+    contents: buildRepairPrompt(previous, issues),
+    config,
+  });
+  const second = parseWithSchema<T>(schema, repaired.text);
+  if (second.issues.length === 0) return second.value;
+
+  throw new ModelResponseError(operation, second.issues, repaired.text);
+};
+
+// --- Fridge Analysis (Image Understanding) ---
+interface ScanDetection {
+  name: string;
+  quantity: number;
+  unit: string;
+  confidence: number;
+  boxes: { image: number; box_2d: number[] }[];
+}
+
+const analyzeFridgeImages = async (images: ScanImage[], onProgress?: (status: string) => void): Promise<FridgeItem[]> => {
+  try {
+    // Each image is preceded by a text label so the model can reference it by index
+    const imageParts: Part[] = [];
+    for (let i = 0; i < images.length; i++) {
+        if (onProgress) onProgress(images.length > 1 ? `Optimizing image ${i + 1} of ${images.length}...` : "Optimizing image...");
+        // Resize and compress for speed
+        const base64Data = await resizeAndCompressImage(images[i].file);
+        imageParts.push({ text: `Image ${i + 1} (${images[i].label}):` });
+        imageParts.push({
+            inlineData: {
+                data: base64Data,
+                mimeType: 'image/jpeg'
+            }
+        });
+    }
+    
+    if (onProgress) onProgress("Analyzing with Gemini Flash...");
+    
+    // Improved Prompt for Ingredient Normalization and Categorization
+    const prompt = `
+You are a food ingredient extraction model.
+Analyze the ${images.length} provided image(s) to detect ingredients. They show different parts of the same kitchen
+(fridge door, shelves, drawers, pantry) or frames from one video, so views may overlap.
+Return a single cleaned, normalized, de-duplicated list grouped by food categories.
+
+Rules:
+- Normalize names (e.g., "bell pepper" -> "Bell Peppers", "eggs" -> "Eggs").
+- Estimate the visible quantity with a sensible unit (e.g. 6 pcs of Eggs, 1 bag of Spinach, 500 g of Chicken Breast).
+- List each item ONCE even if it appears in several images; add one entry to "boxes" for every image it is visible in.
+- Do not double count an item seen from two angles.
+- "box_2d" is [ymin, xmin, ymax, xmax] normalised to 0-1000 relative to that image.
+- "confidence" is 0-1. Use a low value for anything partially hidden, blurry, or ambiguous (e.g. an opaque container).
+- Remove utensils, packaging, labels, reflections, or non-food items.
+- Group items into these specific categories: Produce, Protein, Dairy, Bakery, Pantry, Frozen, Beverages, Other.
+- No explanation text, only JSON.
+
+Output JSON structure:
+{
+  "categories": {
+    "produce": [{
+      "name": "string", "quantity": number, "unit": "string", "confidence": 0.9,
+      "boxes": [{ "image": 1, "box_2d": [ymin, xmin, ymax, xmax] }]
+    }],
+    "dairy": [...],
+    "pantry": [...],
+    "protein": [...],
+    "bakery": [...],
+    "frozen": [...],
+    "beverages": [...],
+    "other": [...]
+  }
+}
+`;
+
+    const data = await generateValidated<{ categories: Record<string, ScanDetection[]> }>(
+      'ingredient scan',
+      FridgeScanResponseSchema,
+      {
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [...imageParts, { text: prompt }]
+        }
+      }
+    );
+    
+    const mappedItems: FridgeItem[] = [];
+
+    // Parse the structured category response
+    for (const [key, items] of Object.entries(data.categories)) {
+        const lowerKey = key.toLowerCase();
+        let category: FridgeItem['category'] = 'Other';
+
+        if (lowerKey === 'produce') category = 'Produce';
+        else if (lowerKey === 'protein') category = 'Protein';
+        else if (lowerKey === 'dairy') category = 'Dairy';
+        else if (lowerKey === 'bakery') category = 'Bakery';
+        else if (lowerKey === 'pantry') category = 'Pantry';
+        else if (lowerKey === 'frozen') category = 'Frozen';
+        else if (lowerKey === 'beverages') category = 'Beverages';
+        
+        items.forEach(({ name, quantity, unit, confidence, boxes: rawBoxes }) => {
+            // Title case the ingredient name just in case
+            const cleanName = name.charAt(0).toUpperCase() + name.slice(1);
+            const boxes: BoundingBox[] = rawBoxes
+                .filter(b => images[b.image - 1] && b.box_2d.length === 4)
+                .map(({ image, box_2d: [ymin, xmin, ymax, xmax] }) => ({
+                    image: images[image - 1].label,
+                    ymin: ymin / 1000,
+                    xmin: xmin / 1000,
+                    ymax: ymax / 1000,
+                    xmax: xmax / 1000,
+                }));
+            const seenIn = Array.from(new Set(boxes.map(b => b.image)));
+            mappedItems.push(createInventoryItem(cleanName, category, 'scan', { quantity, unit, seenIn, confidence, boxes }));
+        });
+    }
+    
+    // The model is asked to de-duplicate, but naming drift across images still slips through
+    return mergeDuplicateDetections(mappedItems);
+  } catch (error) {
+    console.error("Error analyzing fridge:", error);
+    throw error;
+  }
+};
+
+// --- Receipt Scanning (OCR) ---
+const analyzeReceipt = async (image: File): Promise<ReceiptScan> => {
+  try {
+    // Receipts need more resolution than fridge shots for the small print to stay legible
+    const base64Data = await resizeAndCompressImage(image, 1600);
+
+    const prompt = `
+You are reading a supermarket receipt.
+Extract every FOOD or DRINK purchase line and map it to a plain, normalised product name.
+
+Rules:
+- Expand till abbreviations (e.g. "ORG BNLS CHKN BRST" -> "Chicken Breast", "GRK YOG 500G" -> "Greek Yogurt", "BNNS LSE" -> "Bananas").
+- Drop brand names and marketing words like "organic", "value", "finest".
+- Put the line exactly as printed into "raw".
+- Use the weight or volume printed on the line when there is one (e.g. 0.62 kg, 500 g, 2 l); otherwise use the count with unit "pcs".
+- If the same product appears on several lines, return it once with the quantities added up and the first raw line.
+- Skip non-food lines: bags, deposits, discounts, coupons, subtotals, tax, totals, payment and loyalty lines.
+- Categories: Produce, Protein, Dairy, Bakery, Pantry, Frozen, Beverages, Other.
+- "store" is the shop name if printed at the top.
+- No explanation text, only JSON.
+`;
+
+    const data = await generateValidated<{ store?: string; items: { raw: string; name: string; category: FridgeItem['category']; quantity: number; unit: string }[] }>(
+      'receipt scan',
+      ReceiptResponseSchema,
+      {
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [{ inlineData: { data: base64Data, mimeType: 'image/jpeg' } }, { text: prompt }]
+        }
+      }
+    );
+
+    return {
+      store: data.store || undefined,
+      lines: data.items.map(({ raw, name, category, quantity, unit }) => ({
+        raw,
+        item: createInventoryItem(name, category, 'receipt', { quantity, unit })
+      }))
+    };
+  } catch (error) {
+    console.error("Error reading receipt:", error);
+    throw error;
+  }
+};
+
+// --- Product Identification (Barcode Fallback) ---
+const identifyProduct = async (image: File, barcode: string | null): Promise<ProductInfo | null> => {
+  try {
+    const base64Data = await resizeAndCompressImage(image);
+
+    const prompt = `
+Identify the packaged food product in this photo${barcode ? ` (barcode ${barcode})` : ''}.
+Read the label: product type, pack size, and the allergens it declares.
+
+Rules:
+- "name" is the generic product, not the brand (e.g. "Chopped Tomatoes", "Oat Milk", "Corn Flakes").
+- "shelfLifeDays" is the typical unopened shelf life for this kind of product.
+- Categories: Produce, Protein, Dairy, Bakery, Pantry, Frozen, Beverages, Other.
+- Set "found" to false if no food package is visible or the label is unreadable.
+- No explanation text, only JSON.
+`;
+
+    const data = await generateValidated<Omit<ProductInfo, 'barcode'> & { found: boolean }>(
+      'product identification',
+      ProductIdentificationSchema,
+      {
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [{ inlineData: { data: base64Data, mimeType: 'image/jpeg' } }, { text: prompt }]
+        }
+      }
+    );
+
+    if (!data.found) return null;
+    const { found, ...product } = data;
+    return { ...product, barcode: barcode || '' };
+  } catch (error) {
+    console.error("Error identifying product:", error);
+    if (error instanceof ModelResponseError) throw error;
+    return null;
+  }
+};
+
+// --- Recipe Generation ---
+const generateRecipes = async ({
+  ingredients,
+  dietary,
+  allergens,
+  cravings,
+  location,
+  excludeIds,
+  prioritizedIngredients,
+  savedRecipes
+}: RecipeRequest, { onRecipe, signal }: RecipeStreamOptions = {}): Promise<Recipe[]> => {
+  
+  const locationContext = location 
+    ? `User Location: Lat ${location.lat}, Lng ${location.lng}. (Infer region to assume common local pantry staples).` 
+    : 'Location: Unknown.';
+
+  const priorityContext = prioritizedIngredients.length > 0 
+    ? `MUST USE: ${prioritizedIngredients.join(', ')}.` 
+    : '';
+    
+  const savedContext = savedRecipes.length > 0
+    ? `User Favorites (for taste preference): ${savedRecipes.map(r => r.title).join(', ')}.`
+    : '';
+
+  // Optimized prompt for Gemini reasoning with STRICT cravings adherence and Safety checks
+  const prompt = `
+    You are a smart culinary AI designed to minimize food waste and suggest recipes based on available ingredients.
+    
+    INPUT DATA:
+    - Available Ingredients: ${ingredients.join(', ')}.
+    - ${priorityContext}
+    - Dietary: ${dietary}. 
+    - Allergens: ${allergens || 'None'}. 
+    - Cravings: ${cravings.length > 0 ? cravings.join(', ') : 'None'}. 
+    - ${locationContext}
+    - ${savedContext}
+    
+    TASK:
+    Generate exactly 3 recipes following these CRITICAL rules in order of priority:
+    
+    1. ⛔ SAFETY (Allergens): STRICTLY EXCLUDE ingredients containing "${allergens}". This is a hard constraint.
+    2. 🥦 DIETARY: Recipes MUST be strictly "${dietary}". (e.g. If Vegan, absolutely no animal products).
+    3. 😋 CRAVINGS: You MUST satisfy the craving "${cravings.join(', ')}".
+       - CONFLICT RESOLUTION: If a craving conflicts with an allergen/diet (e.g. "Sweet" craving but "No Sugar" allergen, or "Creamy" craving but "Vegan" diet), you MUST use compliant substitutes (e.g. Fruit/Stevia for sugar, Cashews/Coconut for cream) to achieve the flavor profile.
+    4. ♻️ WASTE REDUCTION: Target recipes using >80% of "Available Ingredients".
+    5. 🛍️ SHOPPING: Keep "missingIngredients" minimal.
+    6. 🏠 PANTRY: Assume standard regional pantry staples (oil, salt, pepper, basic spices) are available.
+    7. 📝 CLARITY: Steps must be clear and numbered.
+    
+    RETURN JSON ONLY (No markdown):
+    { "recipes": [{
+      "id": "generate_unique_string",
+      "title": "string",
+      "description": "string",
+      "servings": number, // People the ingredient amounts are for
+      "ingredients": [{ // All ingredients needed
+        "name": "Garlic", // Plain name only, no amount or preparation
+        "quantity": 2, // number, or null for "to taste"
+        "unit": "cloves", // "" for whole items like "2 Eggs"
+        "preparation": "crushed", // "" if none
+        "optional": false
+      }],
+      "missingIngredients": [...], // Items user needs to buy, copied exactly from "ingredients"
+      "steps": ["Step 1...", "Step 2..."],
+      "difficulty": "Easy"|"Medium"|"Hard",
+      "prepTime": "e.g. 30 mins",
+      "calories": number,
+      "tags": ["string"]
+    }]}
+    
+    Exclude IDs: ${excludeIds.join(', ')}.
+  `;
+
+  const model = 'gemini-3-pro-preview'; // Switch to Pro for better reasoning
+  const config: GenerateContentConfig = {
+    responseMimeType: "application/json",
+    responseSchema: toGeminiSchema(RecipesResponseSchema),
+    abortSignal: signal,
+  };
+
+  // Recipes are streamed: each one is validated and handed to onRecipe as soon as its object closes
+  const delivered: Recipe[] = [];
+  const deliver = (raw: unknown[]) => {
+    // Fills in omitted nullable fields (quantity) so every ingredient has the full shape
+    migrateRecipes(raw).forEach(recipe => {
+      delivered.push(recipe);
+      onRecipe?.(recipe);
+    });
+  };
+
+  try {
+    const stream = await getGeminiClient().models.generateContentStream({ model, contents: prompt, config });
+    let text = '';
+    let seen = 0;
+    for await (const chunk of stream) {
+      text += chunk.text || '';
+      const complete = extractCompleteArrayItems(text, 'recipes');
+      complete.slice(seen).forEach(rawItem => {
+        try {
+          const candidate = JSON.parse(rawItem);
+          const issues = validate(RecipeSchema, candidate);
+          if (issues.length === 0) deliver([candidate]);
+          else console.warn("Skipping invalid streamed recipe:", issues);
+        } catch (e) {
+          console.warn("Skipping unparsable streamed recipe:", e);
+        }
+      });
+      seen = complete.length;
+    }
+
+    // Nothing usable came through the stream; give the whole payload the usual repair round
+    if (delivered.length === 0) {
+      const full = parseWithSchema<{ recipes: Recipe[] }>(RecipesResponseSchema, text);
+      const data = full.issues.length === 0
+        ? full.value
+        : await repairResponse<{ recipes: Recipe[] }>('recipe', RecipesResponseSchema, model, config, text, full.issues);
+      deliver(data.recipes);
+    }
+    return delivered;
+  } catch (error) {
+    if (signal?.aborted) return delivered;
+    console.error("Error generating recipes:", error);
+    if (error instanceof ModelResponseError) throw error;
+    return delivered;
+  }
+};
+
+// --- Substitution Reasoning ---
+const suggestSubstitutions = async ({
+    available,
+    missing,
+    dietary,
+    allergens,
+    cravings
+}: SubstitutionRequest): Promise<Substitution[]> => {
+  const prompt = `
+    You are an expert food substitution engine.
+    
+    INPUT:
+    - Available Ingredients (Fridge): ${JSON.stringify(available)}
+    - Missing Ingredients (Needed): ${JSON.stringify(missing)}
+    - Dietary Restriction: ${dietary}
+    - Allergens to Avoid: ${allergens}
+    - User Cravings: ${cravings.join(', ')}
+
+    TASK:
+    For EVERY item in the "Missing Ingredients" list, suggest the best possible substitution.
+    
+    RULES:
+    1. STRICT MATCHING: The "missing" key in output MUST match the input string EXACTLY (case-insensitive).
+    2. CONTEXT AWARENESS: 
+       - Substitute MUST respect Dietary (${dietary}) and Allergens (${allergens}).
+       - Substitute SHOULD align with Cravings (${cravings}) if possible.
+    3. PRIORITY 1 (Fridge): Use items from "Available Ingredients" if they make culinary sense and fit the constraints. Set "source": "Fridge".
+    4. PRIORITY 2 (Pantry/Buy): If no fridge item works, suggest a common store item. Set "source": "Buy" (or "Pantry" if it's basic like salt/oil).
+    5. CLARITY: Provide a short, helpful explanation ("Use X instead because...").
+    
+    OUTPUT JSON:
+    {
+      "substitutions": [
+        {
+          "missing": "Input Item Name",
+          "substitute": "Name of substitute ingredient",
+          "source": "Fridge" | "Pantry" | "Buy",
+          "explanation": "Reasoning...",
+          "confidence": 0.9
+        }
+      ]
+    }
+    
+    Return JSON ONLY.
+  `;
+
+  try {
+    const data = await generateValidated<{ substitutions: Substitution[] }>('substitution', SubstitutionsResponseSchema, {
+      model: 'gemini-3-pro-preview', // Switch to Pro for better reasoning
+      contents: prompt
+    });
+
+    return data.substitutions;
+  } catch (error) {
+    console.error("Substitution Error:", error);
+    if (error instanceof ModelResponseError) throw error;
+    return [];
+  }
+};
+
+// --- Food Waste Score Explanation ---
+const explainWasteScore = async (recipeName: string, score: WasteScore): Promise<string | null> => {
+    const prompt = `
+You are a friendly kitchen assistant helping someone waste less food.
+The recipe "${recipeName}" got a waste-minimization score of ${score.score}/100.
+The score is the share of "weight" the recipe uses; items closer to expiry carry more weight.
+
+Per-item breakdown (daysLeft < 0 means already expired):
+${JSON.stringify(score.breakdown || [], null, 2)}
+
+In at most 2 short sentences, explain the score in plain language and name the most urgent item the recipe
+does not use, if any. Do not restate the number. Plain text only.
+`;
+
+    try {
+        const response = await getGeminiClient().models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt
+        });
+        return response.text?.trim() || null;
+    } catch (e) {
+        console.error("Waste Score Explanation Error", e);
+        return null;
+    }
+};
+
+// --- Meal Planning ---
+const planMeals = async ({ candidates, inventory, openSlots, dietary, allergens }: MealPlanRequest): Promise<MealSuggestion[]> => {
+  const prompt = `
+You are a meal planner whose main goal is to stop food going to waste.
+
+CANDIDATE RECIPES (id: title — ingredients):
+${candidates.map(r => `- ${r.id}: ${r.title} — ${r.ingredients.map(i => i.name).join(', ')}`).join('\n')}
+
+INVENTORY (days until expiry, soonest first):
+${[...inventory].sort((a, b) => a.daysLeft - b.daysLeft).map(i => `- ${i.name}: ${i.daysLeft}`).join('\n')}
+
+OPEN SLOTS (day 0 = today):
+${openSlots.map(s => `- day ${s.day} ${s.slot}`).join('\n')}
+
+Dietary: ${dietary}. Allergens: ${allergens || 'None'}.
+
+RULES:
+1. Only use the candidate ids above and only fill the open slots listed.
+2. Schedule recipes that use the soonest-expiring items on the earliest days, before those items expire.
+3. A recipe may be repeated (leftovers), but not in two consecutive slots and at most twice a week.
+4. Only put a recipe at breakfast if it is a sensible breakfast dish.
+5. Leave a slot out entirely if no candidate fits it.
+
+Return JSON only.
+`;
+
+  try {
+    const data = await generateValidated<{ meals: MealSuggestion[] }>('meal plan', MealPlanResponseSchema, {
+      model: 'gemini-3-pro-preview',
+      contents: prompt
+    });
+    return data.meals;
+  } catch (error) {
+    console.error("Error planning meals:", error);
+    if (error instanceof ModelResponseError) throw error;
+    return [];
+  }
+};
+
+// --- Text to Speech (TTS) ---
+const generateSpeech = async (text: string): Promise<ArrayBuffer> => {
+  try {
+    const response = await getGeminiClient().models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: 'Kore' },
+          },
+        },
+      },
+    });
+    
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("No audio data returned");
+    
+    const binaryString = atob(base64Audio);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
+  } catch (error) {
+    console.error("TTS Error:", error);
+    throw error;
+  }
+};
+
+// --- Maps Grounding (Grocery Stores) ---
+const findGroceryStores = async (lat: number, lng: number): Promise<StoreLocation[]> => {
+  try {
+    const prompt = `
+      Find grocery stores near Latitude: ${lat}, Longitude: ${lng}.
+      Return a list of exactly 5 stores.
+      
+      Structure your response as a JSON object with a "stores" array.
+      Include a "distance" field estimate if possible (e.g. "0.8 mi").
+      
+      Example Output:
+      {
+        "stores": [
+          {
+            "name": "Store Name",
+            "address": "Full Address",
+            "rating": "4.5",
+            "phoneNumber": "(555) 123-4567",
+            "openNow": "Yes/No/Unknown",
+            "distance": "0.5 mi"
+          }
+        ]
+      }
+      
+      If you can't find phone/rating, put "N/A".
+    `;
+
+    // Maps grounding does not support responseSchema, so the reply is validated after the fact
+    const data = await generateValidated<{ stores: StoreLocation[] }>('store search', StoresResponseSchema, {
+      model: "gemini-2.5-flash", // Reverted to 2.5-flash due to tool support
+      contents: prompt,
+      config: {
+        tools: [{ googleMaps: {} }],
+        toolConfig: {
+          retrievalConfig: {
+            latLng: {
+              latitude: lat,
+              longitude: lng
+            }
+          }
+        },
+      },
+    }, false);
+
+    return data.stores;
+  } catch (error) {
+    console.error("Maps Error:", error);
+    if (error instanceof ModelResponseError) throw error;
+    return [];
+  }
+};
+
+// --- Search Grounding (Food Safety/Trends) ---
+
+// Web sources behind a grounded answer; the same page is often cited for several passages
+const toCitations = (chunks: GroundingChunk[]): SearchResult[] => {
+  const citations: SearchResult[] = [];
+  chunks.forEach(({ web }) => {
+    if (web?.uri && !citations.some(c => c.uri === web.uri)) {
+      citations.push({ title: web.title || new URL(web.uri).hostname, uri: web.uri });
+    }
+  });
+  return citations;
+};
+
+const searchFoodInfo = async (query: string): Promise<SearchAnswer> => {
+  try {
+    const response = await getGeminiClient().models.generateContent({
+      model: "gemini-3-pro-preview", // Updated to gemini-3-pro-preview
+      contents: query,
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+
+    return {
+      text: response.text || "No information found.",
+      citations: toCitations(response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+    };
+  } catch (error) {
+    console.error("Search Error:", error);
+    return { text: "Search unavailable.", citations: [] };
+  }
+};
+
+// --- Chat Bot (General) ---
+
+// The assistant tools as Gemini function declarations, for chat and Live sessions
+const getAssistantFunctionDeclarations = (): FunctionDeclaration[] =>
+  Object.entries(ASSISTANT_TOOLS).map(([name, tool]) => ({
+    name,
+    description: tool.description,
+    parameters: toGeminiSchema(tool.parameters),
+  }));
+
+export const ASSISTANT_TOOL_INSTRUCTION = "When the user asks you to change something in the app (shopping list, inventory, recipes, cooking mode, timers, favourites), call the matching tool. The user confirms each action before it runs, so say what you're proposing rather than claiming it's done.";
+
+// Recent turns are enough to resolve follow-ups like "is that safe?"
+const INTENT_HISTORY_TURNS = 4;
+
+// A quick flash call decides where a message goes; on failure it is treated as chat, which can still propose actions
+const classifyAssistantIntent = async (history: ChatTurn[], message: string): Promise<AssistantIntent> => {
+  try {
+    const recent = history
+      .slice(-INTENT_HISTORY_TURNS)
+      .map(turn => `${turn.role}: ${turn.parts.map(p => p.text).join(' ')}`)
+      .join('\n');
+    const data = await generateValidated<{ intent: AssistantIntent }>('intent', AssistantIntentResponseSchema, {
+      model: "gemini-2.5-flash",
+      contents: `Classify the user's latest message to a cooking assistant app.
+
+Conversation so far:
+${recent || '(none)'}
+
+Latest message: ${message}`,
+    });
+    return data.intent;
+  } catch (error) {
+    console.error("Intent classification failed:", error);
+    return 'chat';
+  }
+};
+
+const CHAT_MODEL = 'gemini-3-pro-preview'; // Confirmed usage of 3-pro
+
+const CHAT_INSTRUCTION = `You are a friendly cooking assistant in a food-waste app. Format answers in Markdown: short paragraphs, lists, bold and tables where they help. Text starting with [Context update] describes the user's kitchen (inventory, recipes, shopping list) and replaces earlier updates; text starting with [Web search] is a question the app answered with a web search, for reference. ${ASSISTANT_TOOL_INSTRUCTION}`;
+
+// What happened to a proposed action, as the function response the model expects after its call
+const toFunctionResponse = (call: FunctionCall, action: AssistantAction | null, results: ProposedAction[]): Part => {
+  const proposal = action && results.find(p => p.action === action);
+  const response = !action ? { error: 'Invalid arguments; nothing was shown to the user.' }
+    : !proposal || proposal.status === 'pending' ? { result: 'Not confirmed by the user yet.' }
+    : proposal.status === 'done' ? { result: 'Confirmed by the user and done.' }
+    : proposal.status === 'dismissed' ? { result: 'Declined by the user.' }
+    : { error: `Confirmed, but it failed: ${proposal.error}` };
+  return { functionResponse: { id: call.id, name: call.name, response } };
+};
+
+// Turns are kept here and resent in full each time (the API is stateless); the UI only hands over what's new
+const createChatSession = (earlier: ChatTurn[] = []): ChatSession => {
+  const history: Content[] = earlier.map(turn => ({ role: turn.role, parts: turn.parts }));
+  // Tool calls in the last reply; the next user turn has to answer each of them
+  let openCalls: { call: FunctionCall; action: AssistantAction | null }[] = [];
+
+  const send = async (
+    message: string,
+    { notes = [], actionResults = [], expectAction = false, signal, onText }: ChatSendOptions = {}
+  ): Promise<ChatReply> => {
+    const userTurn: Content = {
+      role: 'user',
+      parts: [
+        ...openCalls.map(({ call, action }) => toFunctionResponse(call, action, actionResults)),
+        ...notes.map(text => ({ text })),
+        { text: message },
+      ],
+    };
+    // Parts go back to the model unchanged, so thought signatures on them are kept
+    const modelParts: Part[] = [];
+    const calls: typeof openCalls = [];
+    let text = '';
+    try {
+      const stream = await getGeminiClient().models.generateContentStream({
+        model: CHAT_MODEL,
+        contents: [...history, userTurn],
+        config: {
+          systemInstruction: CHAT_INSTRUCTION,
+          tools: [{ functionDeclarations: getAssistantFunctionDeclarations() }],
+          // The router already decided this message asks for an action, so make the model pick a tool
+          toolConfig: expectAction ? { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY } } : undefined,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        const parts = chunk.candidates?.[0]?.content?.parts || [];
+        parts.forEach(part => {
+          if (part.functionCall) calls.push({ call: part.functionCall, action: toAssistantAction(part.functionCall.name, part.functionCall.args) });
+          else if (part.text && !part.thought) text += part.text;
+        });
+        modelParts.push(...parts);
+        onText?.(text);
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    }
+
+    // A stopped reply keeps its text but not its (possibly incomplete) tool calls
+    const stopped = !!signal?.aborted;
+    history.push(userTurn, {
+      role: 'model',
+      parts: stopped ? [{ text: text || '(stopped before replying)' }] : modelParts,
+    });
+    openCalls = stopped ? [] : calls;
+    return {
+      text: text.trim() || undefined,
+      actions: openCalls.map(c => c.action).filter((action): action is AssistantAction => action !== null),
+    };
+  };
+
+  return { send };
+};
+
+// --- Live Voice ---
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+const connectLive = async ({ instruction, withTools, onAudio, onTranscription, onToolCall }: LiveConnectOptions): Promise<LiveConnection> => {
+  // Messages can arrive before connect resolves, so tool responses wait for the session
+  const sessionPromise: Promise<Session> = getGeminiClient().live.connect({
+    model: LIVE_MODEL,
+    callbacks: {
+      onopen: () => console.log('Live Session Opened'),
+      onmessage: (message: LiveServerMessage) => {
+        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (base64Audio) onAudio(base64Audio);
+
+        const inText = message.serverContent?.inputTranscription?.text || '';
+        const outText = message.serverContent?.outputTranscription?.text || '';
+        if (inText || outText) onTranscription(inText, outText);
+
+        // Tool calls become proposed actions; the model is told they wait for the user's confirmation
+        const calls = message.toolCall?.functionCalls;
+        if (calls && withTools) {
+          const actions = calls
+            .map(call => toAssistantAction(call.name, call.args))
+            .filter((action): action is AssistantAction => action !== null);
+          if (actions.length > 0) onToolCall(actions);
+          sessionPromise.then(session => session.sendToolResponse({
+            functionResponses: calls.map(call => ({
+              id: call.id,
+              name: call.name,
+              response: { result: 'Shown to the user as a suggestion; it runs once they confirm it.' },
+            })),
+          }));
+        }
+      },
+      onerror: (e) => console.error("Live API Error", e),
+      onclose: () => console.log("Live Session Closed"),
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }
+      },
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      systemInstruction: instruction,
+      tools: withTools ? [{ functionDeclarations: getAssistantFunctionDeclarations() }] : undefined,
+    }
+  });
+  const session = await sessionPromise;
+  return {
+    sendAudio: chunk => session.sendRealtimeInput({ media: chunk }),
+    // Without turnComplete the model takes the update in without starting a reply
+    sendContext: text => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }] }],
+      turnComplete: false,
+    }),
+    close: () => session.close(),
+  };
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  analyzeFridgeImages,
+  analyzeReceipt,
+  identifyProduct,
+  generateRecipes,
+  suggestSubstitutions,
+  explainWasteScore,
+  planMeals,
+  findGroceryStores,
+  searchFoodInfo,
+  classifyAssistantIntent,
+  createChatSession,
+  generateSpeech,
+  connectLive
+};
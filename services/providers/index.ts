@@ -0,0 +1,36 @@
+
+import { AIProvider } from "./types";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+
+export * from "./types";
+
+// Register additional vendors here; the key is the value of AI_PROVIDER in .env
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER = 'gemini';
+
+const resolveProvider = (): AIProvider => {
+  const requested = (process.env.AI_PROVIDER || DEFAULT_PROVIDER).toLowerCase();
+  const provider = PROVIDERS[requested];
+  if (!provider) {
+    console.error(`Unknown AI_PROVIDER "${requested}", falling back to "${DEFAULT_PROVIDER}".`);
+    return PROVIDERS[DEFAULT_PROVIDER];
+  }
+  return provider;
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = resolveProvider();
+  return activeProvider;
+};
+
+// Override the env-selected provider at runtime (e.g. to inject fixtures in tests)
+export const setAIProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
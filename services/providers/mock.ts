@@ -0,0 +1,347 @@
+
+import { FridgeItem, Recipe, Substitution, WasteScore, StoreLocation, BoundingBox, AssistantAction, Craving } from "../../types";
+import { AIProvider, RecipeRequest, RecipeStreamOptions, MealPlanRequest, SubstitutionRequest, ChatTurn, ChatReply, ChatSendOptions, ChatSession, AssistantIntent, SearchAnswer, ScanImage, ReceiptScan } from "./types";
+import { createInventoryItem } from "../inventory";
+import { parseIngredientLine, matchesIngredient } from "../recipes";
+import { ProductInfo } from "../products";
+import { MealSuggestion } from "../mealPlan";
+
+// Deterministic, offline provider used for local development and tests.
+// Responses are built from fixtures and the request itself, never from randomness or the network.
+
+const LATENCY_MS = 400;
+
+const delay = (ms: number = LATENCY_MS) => new Promise(resolve => setTimeout(resolve, ms));
+
+// [name, category, quantity, unit, confidence]; expiry dates are estimated relative to the time of the scan
+export const MOCK_FRIDGE_ITEMS: [string, FridgeItem['category'], number, string, number][] = [
+  ['Spinach', 'Produce', 1, 'bag', 0.93],
+  ['Bell Peppers', 'Produce', 3, 'pcs', 0.97],
+  ['Cherry Tomatoes', 'Produce', 250, 'g', 0.88],
+  ['Lemons', 'Produce', 2, 'pcs', 0.55],
+  ['Eggs', 'Protein', 6, 'pcs', 0.98],
+  ['Chicken Breast', 'Protein', 500, 'g', 0.81],
+  ['Greek Yogurt', 'Dairy', 500, 'g', 0.74],
+  ['Cheddar Cheese', 'Dairy', 200, 'g', 0.9],
+  ['Sourdough Bread', 'Bakery', 1, 'pcs', 0.86],
+  ['Frozen Peas', 'Frozen', 1, 'bag', 0.68],
+  ['Orange Juice', 'Beverages', 1, 'l', 0.42],
+];
+
+// Lays fixture boxes out on a 3x4 grid so they never overlap
+const mockBox = (index: number, image: string): BoundingBox => {
+  const col = index % 3;
+  const row = Math.floor(index / 3) % 4;
+  return { image, xmin: col / 3 + 0.03, xmax: (col + 1) / 3 - 0.03, ymin: row / 4 + 0.03, ymax: (row + 1) / 4 - 0.03 };
+};
+
+// [raw line, name, category, quantity, unit]
+export const MOCK_RECEIPT_LINES: [string, string, FridgeItem['category'], number, string][] = [
+  ['ORG BNLS CHKN BRST', 'Chicken Breast', 'Protein', 0.62, 'kg'],
+  ['GRK YOG 500G', 'Greek Yogurt', 'Dairy', 500, 'g'],
+  ['BNNS LSE', 'Bananas', 'Produce', 6, 'pcs'],
+  ['SPRNG ONION BNCH', 'Spring Onions', 'Produce', 1, 'bunch'],
+  ['BSMTI RICE 1KG', 'Basmati Rice', 'Pantry', 1, 'kg'],
+  ['SEMI SKMD MLK 2L', 'Milk', 'Dairy', 2, 'l'],
+];
+
+// Fixture recipes are written as plain lines for readability and parsed into structured ingredients
+const lines = (items: string[]) => items.map(parseIngredientLine);
+
+export const MOCK_RECIPES: Recipe[] = [
+  {
+    id: 'mock-spinach-frittata',
+    title: 'Spinach & Pepper Frittata',
+    description: 'A fluffy oven-baked frittata that clears out wilting greens and leftover peppers in one pan.',
+    servings: 3,
+    ingredients: lines(['6 Eggs', '2 cups Spinach', '1 Bell Pepper, diced', '1/2 cup Cheddar Cheese, grated', '1 tbsp Olive Oil', 'Salt and Pepper']),
+    missingIngredients: [],
+    steps: [
+      'Preheat the oven to 190°C (375°F).',
+      'Heat the olive oil in an oven-safe skillet and sauté the bell pepper for 4 minutes.',
+      'Add the spinach and cook until just wilted, about 1 minute.',
+      'Whisk the eggs with half the cheddar, season, and pour over the vegetables.',
+      'Scatter the remaining cheese on top and bake for 12 minutes until set.'
+    ],
+    difficulty: 'Easy',
+    prepTime: '25 mins',
+    calories: 320,
+    tags: ['Vegetarian', 'Breakfast', 'One-Pan']
+  },
+  {
+    id: 'mock-lemon-chicken',
+    title: 'Lemon Yogurt Chicken with Peas',
+    description: 'Tangy yogurt-marinated chicken seared until golden, served over buttery smashed peas.',
+    servings: 2,
+    ingredients: lines(['2 Chicken Breasts', '1/2 cup Greek Yogurt', '1 Lemon', '2 cloves Garlic', '2 cups Frozen Peas', '1 tbsp Butter', 'Fresh Mint (optional)']),
+    missingIngredients: [],
+    steps: [
+      'Mix the yogurt, lemon zest, half the lemon juice and crushed garlic.',
+      'Coat the chicken in the marinade and rest for 10 minutes.',
+      'Sear the chicken in a hot pan for 6 minutes per side until cooked through.',
+      'Simmer the peas for 3 minutes, drain, and smash with butter, mint and the remaining lemon juice.',
+      'Slice the chicken and serve over the peas.'
+    ],
+    difficulty: 'Medium',
+    prepTime: '35 mins',
+    calories: 480,
+    tags: ['High Protein', 'Gluten Free']
+  },
+  {
+    id: 'mock-tomato-toast',
+    title: 'Blistered Tomato Sourdough Toast',
+    description: 'Jammy cherry tomatoes piled onto crisp sourdough with a swipe of lemony yogurt.',
+    servings: 1,
+    ingredients: lines(['2 slices Sourdough Bread', '1 cup Cherry Tomatoes', '2 tbsp Greek Yogurt', '1/2 Lemon', '1 tbsp Olive Oil', 'Fresh Basil (optional)']),
+    missingIngredients: [],
+    steps: [
+      'Toast the sourdough until deeply golden.',
+      'Blister the tomatoes in olive oil over high heat for 5 minutes.',
+      'Stir lemon juice into the yogurt and spread over the toast.',
+      'Top with the tomatoes and torn basil.'
+    ],
+    difficulty: 'Easy',
+    prepTime: '15 mins',
+    calories: 290,
+    tags: ['Vegetarian', 'Quick', 'Lunch']
+  },
+  {
+    id: 'mock-fried-rice',
+    title: 'Garden Veggie Fried Rice',
+    description: 'Day-old rice tossed with peas, peppers and egg for a fast weeknight bowl.',
+    servings: 2,
+    ingredients: lines(['2 cups Cooked Rice', '2 Eggs', '1 cup Frozen Peas', '1 Bell Pepper, diced', '2 tbsp Soy Sauce', '2 Spring Onions', '1 tbsp Sesame Oil']),
+    missingIngredients: [],
+    steps: [
+      'Scramble the eggs in sesame oil, then set aside.',
+      'Stir-fry the pepper and peas for 3 minutes.',
+      'Add the rice and soy sauce and fry for 5 minutes until hot.',
+      'Fold the egg back in and finish with sliced spring onions.'
+    ],
+    difficulty: 'Easy',
+    prepTime: '20 mins',
+    calories: 410,
+    tags: ['Comfort', 'Quick']
+  }
+];
+
+// Staples the real prompt tells the model to assume are on hand
+const PANTRY_STAPLES = ['salt', 'pepper', 'olive oil', 'oil', 'butter', 'garlic'];
+
+const withMissing = (recipe: Recipe, available: string[]): Recipe => ({
+  ...recipe,
+  missingIngredients: recipe.ingredients.filter(ing =>
+    !ing.optional &&
+    !available.some(a => matchesIngredient(ing.name, a)) &&
+    !PANTRY_STAPLES.some(s => matchesIngredient(ing.name, s))
+  )
+});
+
+const analyzeFridgeImages = async (images: ScanImage[], onProgress?: (status: string) => void): Promise<FridgeItem[]> => {
+  if (onProgress) onProgress("Analyzing with mock provider...");
+  await delay();
+  // Spread the fixtures across the supplied images so multi-photo UIs have something to show
+  return MOCK_FRIDGE_ITEMS.map(([name, category, quantity, unit, confidence], i) => {
+    const image = images.length > 0 ? images[i % images.length].label : null;
+    return createInventoryItem(name, category, 'scan', {
+      quantity,
+      unit,
+      confidence,
+      seenIn: image ? [image] : [],
+      boxes: image ? [mockBox(Math.floor(i / Math.max(images.length, 1)), image)] : []
+    });
+  });
+};
+
+const analyzeReceipt = async (_image: File): Promise<ReceiptScan> => {
+  await delay();
+  return {
+    store: 'FreshWay Supermarket',
+    lines: MOCK_RECEIPT_LINES.map(([raw, name, category, quantity, unit]) => ({
+      raw,
+      item: createInventoryItem(name, category, 'receipt', { quantity, unit })
+    }))
+  };
+};
+
+const identifyProduct = async (_image: File, barcode: string | null): Promise<ProductInfo | null> => {
+  await delay();
+  return { barcode: barcode || '', name: 'Coconut Milk', category: 'Pantry', allergens: [], shelfLifeDays: 730, quantity: 400, unit: 'ml' };
+};
+
+// Streams like the real provider: one recipe per tick, stopping early if the signal is aborted
+const generateRecipes = async ({ ingredients, excludeIds }: RecipeRequest, { onRecipe, signal }: RecipeStreamOptions = {}): Promise<Recipe[]> => {
+  const delivered: Recipe[] = [];
+  const pending = MOCK_RECIPES
+    .filter(r => !excludeIds.includes(r.id))
+    .slice(0, 3)
+    .map(r => withMissing(r, ingredients));
+  for (const recipe of pending) {
+    await delay();
+    if (signal?.aborted) break;
+    delivered.push(recipe);
+    onRecipe?.(recipe);
+  }
+  return delivered;
+};
+
+const suggestSubstitutions = async ({ available, missing }: SubstitutionRequest): Promise<Substitution[]> => {
+  await delay();
+  return missing.map(m => {
+    const fromFridge = available[0];
+    if (fromFridge) {
+      return {
+        missing: m,
+        substitute: fromFridge,
+        source: 'Fridge',
+        explanation: `Use ${fromFridge} instead of ${m}; it fills the same role in this dish.`,
+        confidence: 0.7
+      };
+    }
+    return {
+      missing: m,
+      substitute: m,
+      source: 'Buy',
+      explanation: `There is no close match in your fridge, so pick up ${m}.`,
+      confidence: 0.5
+    };
+  });
+};
+
+const explainWasteScore = async (recipeName: string, score: WasteScore): Promise<string | null> => {
+  await delay(150);
+  const urgent = (score.breakdown || []).find(e => !e.used && e.daysLeft <= 3);
+  return urgent
+    ? `(mock) ${recipeName} makes good use of your fridge, but ${urgent.item} will still need using soon.`
+    : `(mock) ${recipeName} uses the items that matter most right now.`;
+};
+
+// Fills open dinner slots in day order, most urgent-inventory-friendly recipe first
+const planMeals = async ({ candidates, inventory, openSlots }: MealPlanRequest): Promise<MealSuggestion[]> => {
+  await delay();
+  const urgency = (recipe: Recipe) => inventory
+    .filter(i => recipe.ingredients.some(ing => matchesIngredient(ing.name, i.name)))
+    .reduce((sum, i) => sum + Math.max(0, 7 - i.daysLeft), 0);
+  const ranked = [...candidates].sort((a, b) => urgency(b) - urgency(a));
+  if (ranked.length === 0) return [];
+  return openSlots
+    .filter(s => s.slot === 'dinner')
+    .map((s, i) => ({ day: s.day, slot: s.slot, recipeId: ranked[i % ranked.length].id }));
+};
+
+const MOCK_STORES: StoreLocation[] = [
+  { name: 'Green Basket Market', address: '12 Orchard Lane', rating: '4.6', phoneNumber: '(555) 010-2233', openNow: 'Yes', distance: '0.4 mi' },
+  { name: 'FreshWay Supermarket', address: '280 Main Street', rating: '4.2', phoneNumber: '(555) 010-4455', openNow: 'Yes', distance: '0.9 mi' },
+  { name: 'Corner Pantry', address: '5 Station Road', rating: '3.9', phoneNumber: 'N/A', openNow: 'Unknown', distance: '1.1 mi' },
+  { name: 'Harvest Co-op', address: '77 River Walk', rating: '4.8', phoneNumber: '(555) 010-8899', openNow: 'No', distance: '1.6 mi' },
+  { name: 'ValueMart', address: '1400 Industrial Park', rating: '4.0', phoneNumber: '(555) 010-6677', openNow: 'Yes', distance: '2.3 mi' },
+];
+
+const findGroceryStores = async (_lat: number, _lng: number): Promise<StoreLocation[]> => {
+  await delay();
+  return MOCK_STORES.map(s => ({ ...s }));
+};
+
+const searchFoodInfo = async (query: string): Promise<SearchAnswer> => {
+  await delay();
+  return {
+    text: `Mock search result for "${query}". Connect a real provider for grounded answers.`,
+    citations: [{ title: 'Mock Food Safety Guide', uri: 'https://example.com/food-safety' }]
+  };
+};
+
+const MOCK_CRAVINGS: Craving[] = ['Spicy', 'Sweet', 'Savory', 'Sour', 'Comfort', 'Light'];
+
+// Recognises a few phrasings so the action chips can be tried offline
+const mockActions = (message: string): AssistantAction[] => {
+  const lower = message.toLowerCase();
+  const add = lower.match(/add (.+?) to (?:my |the )?(?:shopping )?list/);
+  if (add) return [{ tool: 'addToShoppingList', items: add[1].split(/,\s*|\s+and\s+/).filter(Boolean) }];
+  const timer = lower.match(/(\d+)\s*min(?:ute)?s?\s+timer|timer for (\d+)\s*min/);
+  if (timer) return [{ tool: 'setTimer', label: 'Timer', minutes: Number(timer[1] || timer[2]) }];
+  const craving = MOCK_CRAVINGS.find(c => lower.includes(c.toLowerCase()));
+  if (craving && /find|something|recipe|make|cook/.test(lower)) return [{ tool: 'generateRecipes', cravings: [craving] }];
+  return [];
+};
+
+// Keyword stand-in for the model's classifier
+const classifyAssistantIntent = async (_history: ChatTurn[], message: string): Promise<AssistantIntent> => {
+  await delay();
+  if (mockActions(message).length > 0) return 'action';
+  return /\b(safe|safely|recall|news|trend|trending|latest|in season)\b/i.test(message) ? 'search' : 'chat';
+};
+
+const mockChatReply = (message: string) => `(mock) You asked: "${message}".
+
+Try the **Spinach & Pepper Frittata** - it uses up your greens:
+
+1. Whisk 6 eggs with a splash of milk
+2. Wilt the spinach and peppers in a pan
+3. Pour over the eggs and bake for 15 minutes
+
+| Ingredient | Days left |
+| --- | --- |
+| Spinach | 2 |
+| Peppers | 4 |`;
+
+// Streams a canned Markdown reply a few words per tick, like the real provider
+const createChatSession = (_history: ChatTurn[] = []): ChatSession => ({
+  send: async (message: string, { signal, onText }: ChatSendOptions = {}): Promise<ChatReply> => {
+    await delay();
+    const actions = mockActions(message);
+    const reply = actions.length > 0 ? `(mock) Sure - confirm below and I'll do it.` : mockChatReply(message);
+    const words = reply.split(/(?<=\s)/);
+    let text = '';
+    for (let i = 0; i < words.length && !signal?.aborted; i += 3) {
+      text += words.slice(i, i + 3).join('');
+      onText?.(text);
+      await delay(40);
+    }
+    return { text, actions: signal?.aborted ? [] : actions };
+  },
+});
+
+// 0.25s of 16-bit mono silence wrapped in a WAV header, so AudioContext.decodeAudioData accepts it
+const silentWav = (sampleRate = 24000, seconds = 0.25): ArrayBuffer => {
+  const samples = Math.floor(sampleRate * seconds);
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples * 2, true);
+  return buffer;
+};
+
+const generateSpeech = async (_text: string): Promise<ArrayBuffer> => {
+  await delay(100);
+  return silentWav();
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  analyzeFridgeImages,
+  analyzeReceipt,
+  identifyProduct,
+  generateRecipes,
+  suggestSubstitutions,
+  explainWasteScore,
+  planMeals,
+  findGroceryStores,
+  searchFoodInfo,
+  classifyAssistantIntent,
+  createChatSession,
+  generateSpeech
+};
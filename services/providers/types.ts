@@ -0,0 +1,121 @@
+
+import { FridgeItem, Recipe, Substitution, WasteScore, StoreLocation, ReceiptLine, MealSlot, AssistantAction, ProposedAction, SearchResult } from "../../types";
+import { ProductInfo } from "../products";
+import { MealSuggestion } from "../mealPlan";
+
+// One photo or extracted video frame in a batched fridge scan
+export interface ScanImage {
+  file: File;
+  label: string; // Shown to the user, e.g. "Photo 2" or "Video frame 3"
+}
+
+export interface ReceiptScan {
+  store?: string;
+  lines: ReceiptLine[]; // Food purchases only; bags, deposits, discounts and totals are dropped
+}
+
+export interface RecipeRequest {
+  ingredients: string[];
+  dietary: string;
+  allergens: string;
+  cravings: string[];
+  location: {lat: number, lng: number} | null;
+  excludeIds: string[];
+  prioritizedIngredients: string[];
+  savedRecipes: Recipe[];
+}
+
+// Recipes are delivered through onRecipe one by one as soon as each is complete.
+// Aborting the signal stops generation; the promise then resolves with the recipes delivered so far.
+export interface RecipeStreamOptions {
+  onRecipe?: (recipe: Recipe) => void;
+  signal?: AbortSignal;
+}
+
+export interface MealPlanRequest {
+  candidates: Recipe[]; // Saved and generated recipes the plan may use (each can be repeated)
+  inventory: { name: string; daysLeft: number }[];
+  openSlots: { day: number; slot: MealSlot }[]; // Slots the user hasn't filled yet
+  dietary: string;
+  allergens: string;
+}
+
+export interface SubstitutionRequest {
+  available: string[];
+  missing: string[];
+  dietary: string;
+  allergens: string;
+  cravings: string[];
+}
+
+export interface ChatTurn {
+  role: string;
+  parts: {text: string}[];
+}
+
+// The assistant's answer plus any actions it proposed through tool calls (run only after the user confirms)
+export interface ChatReply {
+  text: string | undefined;
+  actions: AssistantAction[];
+}
+
+export interface ChatSendOptions {
+  notes?: string[]; // Sent ahead of the message in the same turn: context updates, search answers the session didn't see
+  actionResults?: ProposedAction[]; // How the user resolved the actions proposed in the previous reply
+  expectAction?: boolean; // The router says the message asks for an action; make the model pick a tool
+  signal?: AbortSignal; // Stops the reply; the text received so far is kept, in the session too
+  onText?: (text: string) => void; // The reply so far, after every streamed chunk
+}
+
+// One ongoing assistant conversation. The session keeps its own turns, so each message only sends what's new
+export interface ChatSession {
+  send(message: string, options?: ChatSendOptions): Promise<ChatReply>;
+}
+
+// What the assistant should do with a message: answer from its own knowledge, answer with
+// web search grounding (safety, news, prices), or change something in the app
+export type AssistantIntent = 'chat' | 'search' | 'action';
+
+export interface SearchAnswer {
+  text: string;
+  citations: SearchResult[]; // Web sources the answer was grounded on, deduplicated
+}
+
+// A realtime voice session. The provider handles the wire protocol; the app records and plays the audio
+export interface LiveConnectOptions {
+  instruction: string; // System instruction for the whole session
+  withTools: boolean; // Offer the assistant tools; calls arrive through onToolCall
+  onAudio: (base64Pcm: string) => void; // Reply audio: 16-bit mono PCM at 24 kHz
+  onTranscription: (inText: string, outText: string) => void;
+  onToolCall: (actions: AssistantAction[]) => void;
+}
+
+export interface LiveConnection {
+  sendAudio(chunk: { data: string; mimeType: string }): void; // Microphone input: 16-bit mono PCM at 16 kHz
+  sendContext(text: string): void; // Taken in by the model without starting a reply
+  close(): void;
+}
+
+// Every AI-backed capability the UI relies on. Components never talk to a vendor SDK directly;
+// they go through the facade in geminiService.ts, which forwards to the active provider.
+export interface AIProvider {
+  readonly id: string;
+  // All images are analysed in a single request; the result is de-duplicated across images
+  analyzeFridgeImages(images: ScanImage[], onProgress?: (status: string) => void): Promise<FridgeItem[]>;
+  analyzeReceipt(image: File): Promise<ReceiptScan>;
+  // Fallback for barcodes missing from the local product table; null if the package can't be identified
+  identifyProduct(image: File, barcode: string | null): Promise<ProductInfo | null>;
+  generateRecipes(request: RecipeRequest, options?: RecipeStreamOptions): Promise<Recipe[]>;
+  suggestSubstitutions(request: SubstitutionRequest): Promise<Substitution[]>;
+  // Assigns candidate recipes to open slots so perishable inventory is used before it expires
+  planMeals(request: MealPlanRequest): Promise<MealSuggestion[]>;
+  // Scores are computed locally (services/wasteScore.ts); the model only rephrases the breakdown on request
+  explainWasteScore(recipeName: string, score: WasteScore): Promise<string | null>;
+  findGroceryStores(lat: number, lng: number): Promise<StoreLocation[]>;
+  searchFoodInfo(query: string): Promise<SearchAnswer>;
+  classifyAssistantIntent(history: ChatTurn[], message: string): Promise<AssistantIntent>;
+  createChatSession(history?: ChatTurn[]): ChatSession; // history: earlier turns of a resumed conversation
+  generateSpeech(text: string): Promise<ArrayBuffer>;
+  // Optional: providers without realtime voice leave it out and the UI hides the Live and sous-chef buttons
+  connectLive?(options: LiveConnectOptions): Promise<LiveConnection>;
+}
@@ -0,0 +1,75 @@
+
+import { FridgeItem, Recipe, RecipeSortKey, RecipeSortOptions } from "../types";
+import { scoreRecipeWaste } from "./wasteScore";
+
+export const DEFAULT_RECIPE_SORT: RecipeSortOptions = {
+  sortBy: 'waste',
+  maxMinutes: null,
+  difficulty: null,
+  readyOnly: false,
+};
+
+// Minutes from the model's free-text prepTime: "25 mins", "1 hr 15 min", "1h30", "1.5 hours", "45-60 minutes".
+// Ranges use the upper bound so a time filter never lets a recipe through that might run over.
+// Returns null when no duration can be found.
+export const parsePrepMinutes = (text: string): number | null => {
+  const lower = (text || '').toLowerCase();
+  let total = 0;
+  let found = false;
+  const pattern = /(\d+(?:[.,]\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:[.,]\d+)?))?\s*(h(?:ou)?rs?|h|m(?:in(?:ute)?s?)?)(?![a-z])/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(lower)) !== null) {
+    const value = parseFloat((match[2] || match[1]).replace(',', '.'));
+    total += match[3].startsWith('h') ? value * 60 : value;
+    found = true;
+    if (!match[3].startsWith('h')) continue;
+    // A number straight after the hours without a unit of its own is minutes ("1h30", "2 hrs 15")
+    const minutes = lower.slice(pattern.lastIndex).match(/^\s*(\d+)(?!\s*[a-z\d.,])/);
+    if (minutes) {
+      total += parseInt(minutes[1], 10);
+      pattern.lastIndex += minutes[0].length;
+    }
+  }
+  if (found) return Math.round(total);
+  // A bare number is taken as minutes
+  const bare = lower.match(/\d+/);
+  return bare ? parseInt(bare[0], 10) : null;
+};
+
+const DIFFICULTY_RANK: Record<Recipe['difficulty'], number> = { Easy: 0, Medium: 1, Hard: 2 };
+
+export interface RankedRecipe {
+  recipe: Recipe;
+  wasteScore: number;
+  prepMinutes: number | null;
+  missingCount: number;
+}
+
+// Higher waste score first; everything else smallest first. Unknown prep times sort last.
+const compare = (key: RecipeSortKey) => (a: RankedRecipe, b: RankedRecipe): number => {
+  switch (key) {
+    case 'waste': return b.wasteScore - a.wasteScore;
+    case 'time': return (a.prepMinutes ?? Infinity) - (b.prepMinutes ?? Infinity);
+    case 'missing': return a.missingCount - b.missingCount;
+    case 'calories': return a.recipe.calories - b.recipe.calories;
+    case 'difficulty': return DIFFICULTY_RANK[a.recipe.difficulty] - DIFFICULTY_RANK[b.recipe.difficulty];
+  }
+};
+
+export const rankRecipes = (recipes: Recipe[], inventory: FridgeItem[], now: Date = new Date()): RankedRecipe[] =>
+  recipes.map(recipe => ({
+    recipe,
+    wasteScore: scoreRecipeWaste(recipe, inventory, now).score,
+    prepMinutes: parsePrepMinutes(recipe.prepTime),
+    // Optional extras you don't have shouldn't push a recipe down the list
+    missingCount: recipe.missingIngredients.filter(m => !m.optional).length,
+  }));
+
+// Filters then sorts; ties keep the order the recipes were generated in.
+// Recipes whose prep time can't be read are kept by the time filter rather than silently hidden.
+export const sortRecipes = (ranked: RankedRecipe[], options: RecipeSortOptions): RankedRecipe[] =>
+  ranked
+    .filter(r => options.maxMinutes === null || r.prepMinutes === null || r.prepMinutes <= options.maxMinutes)
+    .filter(r => options.difficulty === null || r.recipe.difficulty === options.difficulty)
+    .filter(r => !options.readyOnly || r.missingCount === 0)
+    .sort(compare(options.sortBy));
@@ -0,0 +1,133 @@
+
+import { Ingredient, Recipe } from "../types";
+import { isSameItem, mentionsItem, normalizeItemName } from "./inventory";
+import { AMOUNT_PATTERN, parseAmount, formatAmount, displayUnit } from "./units";
+
+// Servings assumed for recipes stored before servings were tracked
+export const DEFAULT_SERVINGS = 2;
+
+// Units recognised when splitting legacy free-text lines; anything else is treated as part of the name
+const LINE_UNITS = [
+  'cups', 'cup', 'tablespoons', 'tablespoon', 'tbsp', 'teaspoons', 'teaspoon', 'tsp',
+  'kg', 'g', 'ml', 'l', 'oz', 'lbs', 'lb', 'cloves', 'clove', 'slices', 'slice',
+  'cans', 'can', 'tins', 'tin', 'pinch', 'bunch', 'handful', 'sprigs', 'sprig', 'pcs',
+];
+
+// Splits a legacy line such as "1/2 cup Cheddar Cheese, grated" or "Fresh Mint (optional)"
+export const parseIngredientLine = (line: string): Ingredient => {
+  let rest = line.trim();
+  const optional = /\(optional\)|,\s*optional$/i.test(rest);
+  rest = rest.replace(/\s*\(optional\)/i, '').replace(/,\s*optional$/i, '').trim();
+
+  let quantity: number | null = null;
+  const amount = rest.match(new RegExp(`^(${AMOUNT_PATTERN})\\s*`));
+  if (amount) {
+    quantity = parseAmount(amount[1]);
+    rest = rest.slice(amount[0].length);
+  }
+
+  let unit = '';
+  if (quantity !== null) {
+    const unitMatch = rest.match(new RegExp(`^(${LINE_UNITS.join('|')})\\.?(?:\\s+of)?\\s+`, 'i'));
+    if (unitMatch) {
+      unit = unitMatch[1].toLowerCase();
+      rest = rest.slice(unitMatch[0].length);
+    }
+  }
+
+  const comma = rest.indexOf(',');
+  const name = (comma === -1 ? rest : rest.slice(0, comma)).trim();
+  const preparation = comma === -1 ? '' : rest.slice(comma + 1).trim();
+  return { name, quantity, unit, preparation, optional };
+};
+
+// "2 cloves Garlic", "1/3 cup Milk"; preparation is left to the caller so lists can style it separately
+export const formatIngredient = ({ quantity, unit, name }: Ingredient): string =>
+  quantity === null
+    ? name
+    : [formatAmount(quantity, unit), displayUnit(unit, quantity), name].filter(Boolean).join(' ');
+
+// Name-level match between a recipe ingredient and an inventory item or other ingredient.
+// Whole words only, so "oil" matches "Olive Oil" but not "Boiled Eggs".
+export const matchesIngredient = (a: string, b: string): boolean =>
+  isSameItem(a, b) || mentionsItem(a, b) || mentionsItem(b, a);
+
+// Normalised names at least this similar (0-1, by edit distance) are treated as the same ingredient
+const FUZZY_THRESHOLD = 0.8;
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarWords = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  // Short words differ by one letter too easily ("rice" / "mice"); only compare longer ones
+  if (Math.min(a.length, b.length) < 5) return false;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length) >= FUZZY_THRESHOLD;
+};
+
+// matchesIngredient plus tolerance for spelling variants ("Yogurt" / "Greek Yoghurt", "Chilli" / "Chili")
+export const fuzzyMatchesIngredient = (a: string, b: string): boolean => {
+  if (matchesIngredient(a, b)) return true;
+  const [shorter, longer] = [normalizeItemName(a), normalizeItemName(b)]
+    .map(name => name.split(' ').filter(Boolean))
+    .sort((x, y) => x.length - y.length);
+  return shorter.length > 0 && shorter.every(word => longer.some(other => similarWords(word, other)));
+};
+
+// The same item allowing only for spelling ("Chilli" / "Chili"); unlike fuzzyMatchesIngredient,
+// one name merely mentioning the other ("Milk" in "Coconut Milk") isn't enough
+export const isSimilarItem = (a: string, b: string): boolean =>
+  isSameItem(a, b) || similarWords(normalizeItemName(a), normalizeItemName(b));
+
+// The one item a name refers to: the same item if there is one, otherwise the closest-spelled fuzzy match
+// ("milk" picks "Milk" over "Coconut Milk", and "Coconut Milk" only when there's no plain milk)
+export const findBestMatch = <T extends { name: string }>(items: T[], name: string): T | undefined => {
+  const exact = items.find(i => isSameItem(i.name, name));
+  if (exact) return exact;
+  const target = normalizeItemName(name);
+  const distance = (item: T) => editDistance(normalizeItemName(item.name), target);
+  return items
+    .filter(i => fuzzyMatchesIngredient(i.name, name))
+    .sort((a, b) => distance(a) - distance(b))[0];
+};
+
+export const isIngredientMissing = (recipe: Recipe, ingredient: Ingredient): boolean =>
+  recipe.missingIngredients.some(m => isSameItem(m.name, ingredient.name));
+
+const normalizeIngredient = (raw: any): Ingredient | null => {
+  if (typeof raw === 'string') return parseIngredientLine(raw);
+  if (typeof raw !== 'object' || raw === null || typeof raw.name !== 'string') return null;
+  return {
+    name: raw.name,
+    quantity: typeof raw.quantity === 'number' ? raw.quantity : null,
+    unit: typeof raw.unit === 'string' ? raw.unit : '',
+    preparation: typeof raw.preparation === 'string' ? raw.preparation : '',
+    optional: raw.optional === true,
+  };
+};
+
+// Upgrades recipes stored under ca_recipes / ca_savedRecipes, whose ingredient lines used to be plain strings
+// and which had no servings count
+export const migrateRecipes = (raw: unknown): Recipe[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry: any): Recipe[] => {
+    if (typeof entry !== 'object' || entry === null || !Array.isArray(entry.ingredients)) return [];
+    const toIngredients = (list: unknown): Ingredient[] =>
+      Array.isArray(list) ? list.map(normalizeIngredient).filter((i): i is Ingredient => i !== null) : [];
+    const ingredients = toIngredients(entry.ingredients);
+    // Legacy missing entries were often shorter than the line ("Mint" vs "Fresh Mint"); point them at the real line
+    const missingIngredients = toIngredients(entry.missingIngredients)
+      .map(m => ingredients.find(i => matchesIngredient(i.name, m.name)) || m);
+    const servings = typeof entry.servings === 'number' && entry.servings > 0 ? entry.servings : DEFAULT_SERVINGS;
+    return [{ ...entry, servings, ingredients, missingIngredients }];
+  });
+};
@@ -0,0 +1,330 @@
+
+import { AssistantAction, DietaryFilter } from "../types";
+
+// Single source of truth for the shape of every model payload.
+// The same definitions drive runtime validation here and the provider-side
+// response schemas (see toGeminiSchema in providers/gemini.ts).
+
+interface SchemaBase {
+  description?: string;
+  optional?: boolean;
+}
+
+export type SchemaNode =
+  | (SchemaBase & { type: 'string'; enum?: readonly string[] })
+  | (SchemaBase & { type: 'number'; minimum?: number; maximum?: number })
+  | (SchemaBase & { type: 'boolean' })
+  | (SchemaBase & { type: 'array'; items: SchemaNode })
+  | (SchemaBase & { type: 'object'; properties: Record<string, SchemaNode> });
+
+// --- Builders ---
+export const str = (opts: { enum?: readonly string[]; description?: string } = {}): SchemaNode => ({ type: 'string', ...opts });
+export const num = (opts: { minimum?: number; maximum?: number; description?: string } = {}): SchemaNode => ({ type: 'number', ...opts });
+export const bool = (opts: { description?: string } = {}): SchemaNode => ({ type: 'boolean', ...opts });
+export const list = (items: SchemaNode, opts: { description?: string } = {}): SchemaNode => ({ type: 'array', items, ...opts });
+export const obj = (properties: Record<string, SchemaNode>, opts: { description?: string } = {}): SchemaNode => ({ type: 'object', properties, ...opts });
+export const optional = (node: SchemaNode): SchemaNode => ({ ...node, optional: true });
+
+// --- Type Schemas (mirror types/index.ts) ---
+export const FRIDGE_CATEGORIES = ['Produce', 'Protein', 'Dairy', 'Bakery', 'Pantry', 'Frozen', 'Beverages', 'Other'] as const;
+
+export const BoundingBoxSchema = obj({
+  image: str(),
+  ymin: num({ minimum: 0, maximum: 1 }),
+  xmin: num({ minimum: 0, maximum: 1 }),
+  ymax: num({ minimum: 0, maximum: 1 }),
+  xmax: num({ minimum: 0, maximum: 1 }),
+});
+
+export const FridgeItemSchema = obj({
+  name: str(),
+  category: str({ enum: FRIDGE_CATEGORIES }),
+  isPrioritized: optional(bool()),
+  quantity: num({ minimum: 0 }),
+  unit: str(),
+  addedAt: str({ description: 'ISO date' }),
+  expiresAt: str({ description: 'ISO date' }),
+  source: str({ enum: ['scan', 'manual', 'receipt', 'barcode', 'shopping'] }),
+  allergens: optional(list(str())),
+  seenIn: optional(list(str())),
+  scanArea: optional(str({ enum: ['Fridge', 'Pantry', 'Freezer'] })),
+  confidence: optional(num({ minimum: 0, maximum: 1 })),
+  boxes: optional(list(BoundingBoxSchema)),
+});
+
+export const IngredientSchema = obj({
+  name: str({ description: 'Plain ingredient name without amount or preparation, e.g. "Garlic"' }),
+  quantity: optional(num({ minimum: 0, description: 'null for unmeasured amounts like "to taste"' })),
+  unit: str({ description: 'e.g. g, ml, cup, tbsp, cloves; empty string for whole items' }),
+  preparation: str({ description: 'e.g. diced, crushed; empty string if none' }),
+  optional: bool(),
+});
+
+export const RecipeSchema = obj({
+  id: str({ description: 'Unique identifier' }),
+  title: str(),
+  description: str(),
+  servings: num({ minimum: 1, description: 'Number of people the ingredient amounts serve' }),
+  ingredients: list(IngredientSchema, { description: 'All ingredients needed' }),
+  missingIngredients: list(IngredientSchema, { description: 'Items the user needs to buy' }),
+  steps: list(str()),
+  difficulty: str({ enum: ['Easy', 'Medium', 'Hard'] }),
+  prepTime: str({ description: 'e.g. 30 mins' }),
+  calories: num({ minimum: 0 }),
+  tags: list(str()),
+});
+
+export const ChatMessageSchema = obj({
+  role: str({ enum: ['user', 'model'] }),
+  text: str(),
+  isError: optional(bool()),
+});
+
+export const DietaryFilterSchema = str({ enum: Object.values(DietaryFilter) });
+
+export const CravingSchema = str({ enum: ['Spicy', 'Sweet', 'Savory', 'Sour', 'Comfort', 'Light'] });
+
+export const StoreLocationSchema = obj({
+  name: str(),
+  address: str(),
+  rating: optional(str()),
+  phoneNumber: optional(str()),
+  openNow: optional(str()),
+  distance: optional(str({ description: 'e.g. "0.8 mi"' })),
+});
+
+export const SearchResultSchema = obj({
+  title: str(),
+  uri: str(),
+});
+
+export const SubstitutionSchema = obj({
+  missing: str(),
+  substitute: str(),
+  source: str({ enum: ['Fridge', 'Pantry', 'Buy'] }),
+  explanation: str(),
+  confidence: num({ minimum: 0, maximum: 1 }),
+});
+
+export const WasteScoreEntrySchema = obj({
+  item: str(),
+  used: bool(),
+  matchedIngredient: optional(str()),
+  daysLeft: num(),
+  weight: num({ minimum: 0 }),
+});
+
+export const WasteScoreSchema = obj({
+  score: num({ minimum: 0, maximum: 100 }),
+  unused: list(str()),
+  explanation: str(),
+  breakdown: optional(list(WasteScoreEntrySchema)),
+});
+
+// --- Response Envelopes ---
+export const ScanDetectionSchema = obj({
+  name: str(),
+  quantity: num({ minimum: 0, description: 'Estimated count or amount visible' }),
+  unit: str({ description: 'e.g. pcs, g, bag, bottle' }),
+  confidence: num({ minimum: 0, maximum: 1, description: 'How sure you are this item is present and correctly named' }),
+  boxes: list(obj({
+    image: num({ minimum: 1, description: '1-based index of the image' }),
+    box_2d: list(num({ minimum: 0, maximum: 1000 }), { description: '[ymin, xmin, ymax, xmax] scaled to 0-1000' }),
+  })),
+});
+
+export const FridgeScanResponseSchema = obj({
+  categories: obj(Object.fromEntries(
+    FRIDGE_CATEGORIES.map(c => [c.toLowerCase(), list(ScanDetectionSchema)])
+  )),
+});
+
+export const ReceiptLineSchema = obj({
+  raw: str({ description: 'The line exactly as printed on the receipt' }),
+  name: str({ description: 'Plain product name, e.g. "Chicken Breast"' }),
+  category: str({ enum: FRIDGE_CATEGORIES }),
+  quantity: num({ minimum: 0 }),
+  unit: str({ description: 'e.g. pcs, g, kg, l, pack' }),
+});
+
+export const ReceiptResponseSchema = obj({
+  store: optional(str()),
+  items: list(ReceiptLineSchema),
+});
+
+export const ProductIdentificationSchema = obj({
+  found: bool({ description: 'False if the photo does not show an identifiable food product' }),
+  name: str({ description: 'Generic product name without brand, e.g. "Chopped Tomatoes"' }),
+  category: str({ enum: FRIDGE_CATEGORIES }),
+  allergens: list(str(), { description: 'Lower-case allergens from the label, e.g. gluten, milk, nuts' }),
+  shelfLifeDays: num({ minimum: 0, description: 'Typical unopened shelf life in days' }),
+  quantity: optional(num({ minimum: 0, description: 'Pack size' })),
+  unit: optional(str()),
+});
+
+export const RecipesResponseSchema = obj({ recipes: list(RecipeSchema) });
+
+export const SubstitutionsResponseSchema = obj({ substitutions: list(SubstitutionSchema) });
+
+export const MealSuggestionSchema = obj({
+  day: num({ minimum: 0, maximum: 6, description: 'Day offset, 0 = today' }),
+  slot: str({ enum: ['breakfast', 'lunch', 'dinner'] }),
+  recipeId: str({ description: 'id of one of the candidate recipes' }),
+});
+
+export const MealPlanResponseSchema = obj({ meals: list(MealSuggestionSchema) });
+
+export const StoresResponseSchema = obj({ stores: list(StoreLocationSchema) });
+
+// --- Assistant Tools ---
+// Parameters of the function declarations offered to the chat and Live assistants (see AssistantAction)
+export const ASSISTANT_TOOLS: Record<AssistantAction['tool'], { description: string; parameters: SchemaNode }> = {
+  addToShoppingList: {
+    description: 'Add one or more items to the user\'s shopping list.',
+    parameters: obj({ items: list(str({ description: 'One item each, with an amount if the user gave one, e.g. "6 Eggs"' })) }),
+  },
+  removeIngredient: {
+    description: 'Remove an item from the user\'s fridge inventory (used up, thrown away or scanned by mistake).',
+    parameters: obj({ name: str({ description: 'Inventory item name' }) }),
+  },
+  addIngredient: {
+    description: 'Add an item to the user\'s fridge inventory.',
+    parameters: obj({
+      name: str(),
+      quantity: optional(num({ minimum: 0 })),
+      unit: optional(str({ description: 'e.g. "pcs", "g", "ml"' })),
+    }),
+  },
+  generateRecipes: {
+    description: 'Generate new recipe ideas from the inventory, optionally matching cravings such as "find me something spicy".',
+    parameters: obj({ cravings: optional(list(CravingSchema)) }),
+  },
+  startCookingMode: {
+    description: 'Open step-by-step cooking mode for one of the user\'s generated or saved recipes.',
+    parameters: obj({ recipeTitle: str({ description: 'Title of a recipe from the context' }) }),
+  },
+  setTimer: {
+    description: 'Start a named kitchen timer.',
+    parameters: obj({ label: str({ description: 'e.g. "Pasta"' }), minutes: num({ minimum: 0.1, maximum: 600 }) }),
+  },
+  saveRecipe: {
+    description: 'Save one of the generated recipes to the user\'s favourites.',
+    parameters: obj({ recipeTitle: str({ description: 'Title of a recipe from the context' }) }),
+  },
+};
+
+export const AssistantIntentResponseSchema = obj({
+  intent: str({
+    enum: ['chat', 'search', 'action'],
+    description: 'search: needs current or authoritative web info (food safety, recalls, news, trends, prices); action: asks to change the app; chat: anything else',
+  }),
+});
+
+// --- Validation ---
+const describe = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+// Returns a list of human-readable issues; an empty list means the value matches the schema.
+export const validate = (schema: SchemaNode, value: unknown, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: "${value}" is not one of ${schema.enum.join(', ')}`];
+      return [];
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path}: expected number, got ${describe(value)}`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: ${value} is below ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: ${value} is above ${schema.maximum}`];
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      return value.flatMap((item, i) => validate(schema.items, item, `${path}[${i}]`));
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, child]) => {
+        if (record[key] === undefined || record[key] === null) {
+          return child.optional ? [] : [`${path}.${key}: is required`];
+        }
+        return validate(child, record[key], `${path}.${key}`);
+      });
+    }
+  }
+};
+
+// Thrown when a model reply still fails validation after the automatic repair round.
+// `message` is safe to show to users; `issues` carries the details for logging.
+export class ModelResponseError extends Error {
+  constructor(
+    public readonly operation: string,
+    public readonly issues: string[],
+    public readonly rawText?: string
+  ) {
+    super(`The AI returned an unexpected ${operation} response. Please try again.`);
+    this.name = 'ModelResponseError';
+  }
+}
+
+// Strips markdown fences and any prose around the outermost JSON object
+export const extractJSON = (text: string | undefined): unknown => {
+  if (!text) throw new SyntaxError('Empty response');
+  const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  const start = clean.indexOf('{');
+  const end = clean.lastIndexOf('}');
+  if (start === -1 || end < start) throw new SyntaxError('No JSON object found');
+  return JSON.parse(clean.substring(start, end + 1));
+};
+
+// `issues` is empty when `value` is valid
+export interface ParseResult<T> {
+  value: T | null;
+  issues: string[];
+}
+
+export const parseWithSchema = <T>(schema: SchemaNode, text: string | undefined): ParseResult<T> => {
+  let data: unknown;
+  try {
+    data = extractJSON(text);
+  } catch (e) {
+    return { value: null, issues: [`$: response is not valid JSON (${(e as Error).message})`] };
+  }
+  const issues = validate(schema, data);
+  return { value: issues.length === 0 ? data as T : null, issues };
+};
+
+// For streamed replies: the raw text of every object in `key`'s array that is already complete,
+// e.g. the first two recipes of `{"recipes":[{...},{...},{"title":"Sp` (the third is still arriving).
+export const extractCompleteArrayItems = (text: string, key: string): string[] => {
+  const keyAt = text.indexOf(`"${key}"`);
+  if (keyAt === -1) return [];
+  const arrayAt = text.indexOf('[', keyAt);
+  if (arrayAt === -1) return [];
+
+  const items: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = arrayAt + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (depth === 0) break; // end of the array itself
+      depth--;
+      if (depth === 0) items.push(text.slice(start, i + 1));
+    }
+  }
+  return items;
+};
@@ -0,0 +1,146 @@
+
+import { FridgeItem, Ingredient, ShoppingItem } from "../types";
+import { createInventoryItem, isSameItem } from "./inventory";
+import { formatIngredient, isSimilarItem, parseIngredientLine } from "./recipes";
+import { canonicalUnit, convertUnit } from "./units";
+
+// Store walking order; the list is shown in these sections
+export const AISLES: { category: FridgeItem['category']; label: string }[] = [
+  { category: 'Produce', label: '🥬 Fruit & Veg' },
+  { category: 'Bakery', label: '🥖 Bakery' },
+  { category: 'Protein', label: '🥩 Meat, Fish & Eggs' },
+  { category: 'Dairy', label: '🧀 Dairy' },
+  { category: 'Frozen', label: '🧊 Frozen' },
+  { category: 'Pantry', label: '🥫 Pantry' },
+  { category: 'Beverages', label: '🧃 Drinks' },
+  { category: 'Other', label: '🛍️ Other' },
+];
+
+// Aisle for ingredients that aren't in the inventory (first match wins, so "peanut butter" is Pantry, not Dairy)
+const CATEGORY_PATTERNS: [RegExp, FridgeItem['category']][] = [
+  [/frozen|ice cream/, 'Frozen'],
+  [/black pepper|peppercorn|peanut butter|coconut milk|stock|broth|canned|tinned|flour|sugar|salt|oil\b|vinegar|rice|pasta|spaghetti|noodle|spice|cumin|paprika|cinnamon|sauce|honey|oats|beans|lentil|chickpea|nuts?\b|almond|seed|cocoa|vanilla|baking/, 'Pantry'],
+  [/chicken|beef|pork|lamb|turkey|fish|salmon|tuna|cod|shrimp|prawn|tofu|tempeh|bacon|ham\b|sausage|mince|eggs?\b/, 'Protein'],
+  [/milk|cheese|cheddar|feta|parmesan|mozzarella|cream|butter|yogh?urt/, 'Dairy'],
+  [/bread|bun\b|roll\b|bagel|tortilla|wrap|pita|croissant|baguette/, 'Bakery'],
+  [/juice|water|soda|coffee|tea\b|wine|beer/, 'Beverages'],
+  [/apple|banana|berr|lemon|lime|orange|avocado|tomato|onion|garlic|potato|carrot|pepper|spinach|lettuce|salad|rocket|basil|mint|parsley|cilantro|coriander|dill|thyme|rosemary|ginger|mushroom|zucchini|courgette|cucumber|broccoli|cauliflower|cabbage|kale|celery|chil+i|leek|scallion|squash|pumpkin|aubergine|eggplant|peas?\b|corn|fruit|veg/, 'Produce'],
+];
+
+// The inventory knows best (the scanner categorised it); otherwise guess from the name
+export const guessCategory = (name: string, inventory: FridgeItem[] = []): FridgeItem['category'] => {
+  const known = inventory.find(i => isSameItem(i.name, name));
+  if (known) return known.category;
+  const lower = name.toLowerCase();
+  return CATEGORY_PATTERNS.find(([pattern]) => pattern.test(lower))?.[1] ?? 'Other';
+};
+
+export const formatShoppingItem = ({ name, quantity, unit }: ShoppingItem): string =>
+  formatIngredient({ name, quantity, unit, preparation: '', optional: false });
+
+// An ingredient to buy and, when it comes from a recipe, which one
+export interface ShoppingEntry {
+  ingredient: Ingredient;
+  recipeId?: string;
+}
+
+// Adds an amount to a line; null when the units can't be combined ("2 cloves" and "1 tbsp" garlic)
+const addAmount = (item: ShoppingItem, quantity: number | null, unit: string): ShoppingItem | null => {
+  if (quantity === null) return item; // "salt to taste" adds nothing to "1 tsp salt"
+  if (item.quantity === null) return { ...item, quantity, unit };
+  const converted = convertUnit(quantity, unit, item.unit);
+  return converted === null ? null : { ...item, quantity: item.quantity + converted };
+};
+
+// Merges entries into the list: amounts of the same ingredient are added up across recipes
+// ("2 Eggs" + "Eggs" + "3 Eggs" is one "5 Eggs" line); incompatible units stay separate lines.
+// An entry already on the list for the same recipe is skipped so adding a recipe twice doesn't double it.
+export const addToShoppingList = (list: ShoppingItem[], entries: ShoppingEntry[], inventory: FridgeItem[] = []): ShoppingItem[] =>
+  entries.reduce((next, { ingredient, recipeId }) => {
+    const open = next.filter(i => !i.checked && isSameItem(i.name, ingredient.name));
+    if (recipeId && open.some(i => i.sourceRecipeIds.includes(recipeId))) return next;
+
+    const sources = recipeId ? [recipeId] : [];
+    for (const item of open) {
+      const merged = addAmount(item, ingredient.quantity, ingredient.unit);
+      if (merged) return next.map(i => i === item ? { ...merged, sourceRecipeIds: [...item.sourceRecipeIds, ...sources] } : i);
+    }
+
+    const fresh: ShoppingItem = {
+      name: ingredient.name,
+      quantity: ingredient.quantity,
+      unit: ingredient.unit,
+      category: guessCategory(ingredient.name, inventory),
+      sourceRecipeIds: sources,
+      checked: false,
+    };
+    // Buying it again: a ticked-off line for the same thing is replaced rather than kept alongside
+    return [...next.filter(i => !(i.checked && isSameItem(i.name, ingredient.name))), fresh];
+  }, list);
+
+export const isOnShoppingList = (list: ShoppingItem[], name: string, recipeId?: string): boolean =>
+  list.some(i => !i.checked && isSameItem(i.name, name) && (!recipeId || i.sourceRecipeIds.includes(recipeId)));
+
+// Takes a recipe's share off the list. The line stays while another recipe needs it or an amount added
+// by hand or by the assistant is left ("3 Eggs" for a recipe + "6 Eggs" typed in keeps "6 Eggs").
+export const removeFromShoppingList = (list: ShoppingItem[], ingredient: Ingredient, recipeId?: string): ShoppingItem[] => {
+  const item = list.find(i => !i.checked && isSameItem(i.name, ingredient.name) && (!recipeId || i.sourceRecipeIds.includes(recipeId)));
+  if (!item) return list;
+  if (!recipeId) return list.filter(i => i !== item);
+
+  const others = item.sourceRecipeIds.filter(id => id !== recipeId);
+  // A recipe amount without a quantity ("salt to taste") added nothing to the line
+  const share = ingredient.quantity === null ? 0 : item.quantity === null ? null : convertUnit(ingredient.quantity, ingredient.unit, item.unit);
+  const quantity = share === null || item.quantity === null ? item.quantity : Math.max(0, Math.round((item.quantity - share) * 100) / 100);
+  if (others.length === 0 && !(quantity !== null && quantity > 0)) return list.filter(i => i !== item);
+  return list.map(i => i === item ? { ...i, quantity, sourceRecipeIds: others } : i);
+};
+
+// Whether buying the item ticks the open line off; buying coconut milk doesn't tick off "Milk"
+export const coversShoppingLine = (line: ShoppingItem, purchased: FridgeItem): boolean =>
+  !line.checked && isSimilarItem(line.name, purchased.name);
+
+// Ticks off every open line that one of the purchased items covers
+export const checkOffPurchases = (list: ShoppingItem[], purchased: FridgeItem[]): ShoppingItem[] =>
+  list.map(i => purchased.some(p => coversShoppingLine(i, p)) ? { ...i, checked: true } : i);
+
+// Recipe measures nobody shops by: a ticked "2 tbsp Olive Oil" goes into the pantry as one bottle
+const RECIPE_MEASURES = /^(tsp|tbsp|cup|pinch(es)?|dash(es)?|cloves?|sprigs?|slices?|handfuls?)$/;
+
+// What a ticked-off line adds to the inventory, with a fresh shelf-life estimate from today
+export const toInventoryItem = (item: ShoppingItem, now: Date = new Date()): FridgeItem => {
+  const unit = canonicalUnit(item.unit);
+  const amount = item.quantity === null || item.quantity <= 0 || RECIPE_MEASURES.test(unit)
+    ? {}
+    : { quantity: item.quantity, unit: unit || 'pcs' };
+  return createInventoryItem(item.name, item.category, 'shopping', amount, now);
+};
+
+// Aisle sections in walking order; open items first within each section
+export const groupByAisle = (list: ShoppingItem[]) =>
+  AISLES
+    .map(aisle => ({
+      ...aisle,
+      items: list
+        .filter(i => i.category === aisle.category)
+        .sort((a, b) => Number(a.checked) - Number(b.checked)),
+    }))
+    .filter(aisle => aisle.items.length > 0);
+
+// Upgrades whatever is stored under ca_shoppingList; the old free-text lines are parsed and merged
+export const migrateShoppingList = (raw: unknown): ShoppingItem[] => {
+  if (!Array.isArray(raw)) return [];
+  const structured = raw.filter((entry: any): entry is ShoppingItem => typeof entry === 'object' && entry !== null && typeof entry.name === 'string')
+    .map(entry => ({
+      name: entry.name,
+      quantity: typeof entry.quantity === 'number' ? entry.quantity : null,
+      unit: typeof entry.unit === 'string' ? entry.unit : '',
+      category: entry.category || guessCategory(entry.name),
+      sourceRecipeIds: Array.isArray(entry.sourceRecipeIds) ? entry.sourceRecipeIds : [],
+      checked: entry.checked === true,
+      restocked: typeof entry.restocked?.quantity === 'number' && typeof entry.restocked.unit === 'string' ? entry.restocked : undefined,
+    }));
+  const legacy = raw.filter((entry): entry is string => typeof entry === 'string')
+    .map(line => ({ ingredient: parseIngredientLine(line) }));
+  return addToShoppingList(structured, legacy);
+};
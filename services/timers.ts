@@ -0,0 +1,112 @@
+
+import { CookingTimer } from "../types";
+import { AMOUNT_PATTERN, parseAmount } from "./units";
+
+// A duration found in a step's text, e.g. "simmer for 15 minutes"
+export interface TimerSuggestion {
+  id: string;
+  label: string;
+  durationSec: number;
+  text: string; // As written: "15 minutes"
+}
+
+const DURATION = new RegExp(
+  `(${AMOUNT_PATTERN})(?:\\s*(?:-|–|to)\\s*(?:${AMOUNT_PATTERN}))?\\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)(?![a-z])`,
+  'gi'
+);
+
+// Verbs that name a timer; the last one before the duration wins ("stir, then simmer for 10 minutes" → Simmer)
+const TIMER_VERBS = /\b(simmer|boil|bake|roast|rest|cook|fry|saut[eé]|grill|broil|steam|marinate|chill|refrigerate|freeze|soak|rise|proof|prove|blanch|braise|reduce|microwave|toast|sear|poach|stew|cool|set|knead|whisk|stir|steep|infuse|bloom)\b/gi;
+
+const unitSeconds = (unit: string) => unit.startsWith('h') ? 3600 : unit.startsWith('m') ? 60 : 1;
+
+const labelFor = (before: string, stepIndex: number): string => {
+  const sentence = before.split(/[.;!?]/).pop() || '';
+  const verbs = sentence.match(TIMER_VERBS);
+  const verb = verbs ? verbs[verbs.length - 1] : null;
+  return verb ? `${verb[0].toUpperCase()}${verb.slice(1).toLowerCase()} · Step ${stepIndex + 1}` : `Step ${stepIndex + 1}`;
+};
+
+// Ranges use the lower bound: check at the earliest time, then add more if needed.
+// "1 hour 20 minutes" (or "1 hour and 20 minutes") is one timer.
+export const parseStepTimers = (step: string, stepIndex: number, recipeId: string): TimerSuggestion[] => {
+  const found: { start: number; end: number; seconds: number }[] = [];
+  let match: RegExpExecArray | null;
+  DURATION.lastIndex = 0;
+  while ((match = DURATION.exec(step)) !== null) {
+    const seconds = Math.round(parseAmount(match[1]) * unitSeconds(match[2].toLowerCase()));
+    const previous = found[found.length - 1];
+    if (previous && /^\s*(and\s*)?$/i.test(step.slice(previous.end, match.index))) {
+      previous.end = match.index + match[0].length;
+      previous.seconds += seconds;
+    } else {
+      found.push({ start: match.index, end: match.index + match[0].length, seconds });
+    }
+  }
+  return found
+    .filter(f => f.seconds > 0)
+    .map((f, i) => ({
+      id: `${recipeId}-${stepIndex}-${i}`,
+      label: labelFor(step.slice(0, f.start), stepIndex),
+      durationSec: f.seconds,
+      text: step.slice(f.start, f.end),
+    }));
+};
+
+export const startTimer = (suggestion: TimerSuggestion, now: number = Date.now()): CookingTimer => ({
+  id: suggestion.id,
+  label: suggestion.label,
+  durationSec: suggestion.durationSec,
+  status: 'running',
+  endsAt: now + suggestion.durationSec * 1000,
+  remainingSec: suggestion.durationSec,
+});
+
+export const remainingSeconds = (timer: CookingTimer, now: number = Date.now()): number =>
+  timer.status === 'running' && timer.endsAt !== null
+    ? Math.max(0, Math.ceil((timer.endsAt - now) / 1000))
+    : timer.status === 'done' ? 0 : timer.remainingSec;
+
+export const pauseTimer = (timer: CookingTimer, now: number = Date.now()): CookingTimer =>
+  timer.status === 'running' ? { ...timer, status: 'paused', endsAt: null, remainingSec: remainingSeconds(timer, now) } : timer;
+
+export const resumeTimer = (timer: CookingTimer, now: number = Date.now()): CookingTimer =>
+  timer.status === 'paused' ? { ...timer, status: 'running', endsAt: now + timer.remainingSec * 1000 } : timer;
+
+// Running timers whose time is up and whose alarm hasn't gone off yet
+export const dueTimers = (timers: CookingTimer[], now: number = Date.now()): CookingTimer[] =>
+  timers.filter(t => t.status === 'running' && t.endsAt !== null && t.endsAt <= now);
+
+// "1:05:00", "14:59", "0:30"
+export const formatCountdown = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+// "15 min", "1 h 20 min", "30 s" for the step chips
+export const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return [h && `${h} h`, m && `${m} min`, s && `${s} s`].filter(Boolean).join(' ');
+};
+
+// Three short beeps through Web Audio; the spoken alert follows separately
+export const playAlarm = () => {
+  const ctx = new AudioContext();
+  [0, 0.4, 0.8].forEach(offset => {
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, ctx.currentTime + offset);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + offset + 0.3);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(ctx.currentTime + offset);
+    oscillator.stop(ctx.currentTime + offset + 0.3);
+  });
+  setTimeout(() => ctx.close(), 1500);
+};
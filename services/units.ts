@@ -0,0 +1,163 @@
+
+import { Ingredient, Recipe, UnitSystem } from "../types";
+
+// --- Amounts ---
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4, '⅛': 1 / 8,
+};
+
+// "1 1/2", "1/2", "1½", "½", "1.5" or "1,5"
+export const AMOUNT_PATTERN = '\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+[½⅓⅔¼¾⅛]|[½⅓⅔¼¾⅛]|\\d+(?:[.,]\\d+)?';
+
+export const parseAmount = (text: string): number => {
+  const [whole, fraction] = text.trim().includes(' ') ? text.trim().split(/\s+/) : [text.trim(), ''];
+  const parsePart = (part: string): number => {
+    if (!part) return 0;
+    if (UNICODE_FRACTIONS[part] !== undefined) return UNICODE_FRACTIONS[part];
+    const trailing = part.match(/^(\d+)([½⅓⅔¼¾⅛])$/);
+    if (trailing) return parseInt(trailing[1], 10) + UNICODE_FRACTIONS[trailing[2]];
+    if (part.includes('/')) {
+      const [n, d] = part.split('/').map(Number);
+      return d ? n / d : 0;
+    }
+    return parseFloat(part.replace(',', '.'));
+  };
+  return parsePart(whole) + parsePart(fraction);
+};
+
+// Fractions cooks actually measure with; anything finer is noise from scaling
+const KITCHEN_FRACTIONS: [number, string][] = [
+  [0, ''], [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'], [1, ''],
+];
+
+const toFraction = (quantity: number): string => {
+  if (quantity >= 10) return String(Math.round(quantity));
+  let whole = Math.floor(quantity);
+  const [value, label] = KITCHEN_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - (quantity - whole)) < Math.abs(best[0] - (quantity - whole)) ? candidate : best
+  );
+  if (value === 1) whole += 1;
+  // Never round a real amount down to nothing
+  if (whole === 0 && !label) return '1/8';
+  return [whole > 0 ? String(whole) : '', label].filter(Boolean).join(' ');
+};
+
+// Metric weights and volumes round to what a scale or jug can show
+const toMetric = (quantity: number): string => {
+  const step = quantity < 10 ? 0.5 : quantity < 100 ? 5 : quantity < 1000 ? 10 : 50;
+  const rounded = Math.max(step, Math.round(quantity / step) * step);
+  return String(Math.round(rounded * 100) / 100);
+};
+
+// Whole things: nobody wants 2/3 of a clove or 3 1/3 eggs
+const toCount = (quantity: number): string => {
+  if (quantity >= 3) return String(Math.round(quantity));
+  return toFraction(Math.max(0.5, Math.round(quantity * 2) / 2));
+};
+
+const DECIMAL_UNITS = new Set(['g', 'ml']);
+const SMALL_DECIMAL_UNITS = new Set(['kg', 'l']);
+const COUNT_UNITS = new Set(['', 'pcs', 'clove', 'cloves', 'slice', 'slices', 'can', 'cans', 'tin', 'tins', 'sprig', 'sprigs']);
+
+// "1/3" for cups and spoons; "250" for grams; "1.25" for kilos; whole or half for countable items
+export const formatAmount = (quantity: number, unit: string = ''): string => {
+  const canonical = canonicalUnit(unit);
+  if (COUNT_UNITS.has(canonical)) return toCount(quantity);
+  if (DECIMAL_UNITS.has(canonical)) return toMetric(quantity);
+  if (SMALL_DECIMAL_UNITS.has(canonical)) return String(Math.max(0.05, Math.round(quantity * 20) / 20));
+  return toFraction(quantity);
+};
+
+// --- Units ---
+
+const UNIT_ALIASES: Record<string, string> = {
+  cups: 'cup', tablespoon: 'tbsp', tablespoons: 'tbsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  grams: 'g', gram: 'g', kilograms: 'kg', kilogram: 'kg', millilitres: 'ml', milliliters: 'ml',
+  litres: 'l', liters: 'l', litre: 'l', liter: 'l', ounces: 'oz', ounce: 'oz', lbs: 'lb', pounds: 'lb', pound: 'lb',
+  'fl. oz': 'fl oz', floz: 'fl oz',
+};
+
+export const canonicalUnit = (unit: string): string => {
+  const lower = unit.trim().toLowerCase();
+  return UNIT_ALIASES[lower] || lower;
+};
+
+const ML_PER_UNIT: Record<string, number> = { ml: 1, l: 1000, tsp: 4.93, tbsp: 14.79, cup: 236.59, 'fl oz': 29.57 };
+const G_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, oz: 28.35, lb: 453.59 };
+
+// Picks the unit a cook in the given system would naturally use for this amount
+const bestVolume = (ml: number, system: UnitSystem): [number, string] => {
+  if (ml < ML_PER_UNIT.tbsp) return [ml / ML_PER_UNIT.tsp, 'tsp'];
+  if (ml < ML_PER_UNIT.cup / 4) return [ml / ML_PER_UNIT.tbsp, 'tbsp'];
+  if (system === 'us') return [ml / ML_PER_UNIT.cup, 'cup'];
+  return ml >= 1000 ? [ml / 1000, 'l'] : [ml, 'ml'];
+};
+
+const bestWeight = (g: number, system: UnitSystem): [number, string] => {
+  if (system === 'us') return g < G_PER_UNIT.lb ? [g / G_PER_UNIT.oz, 'oz'] : [g / G_PER_UNIT.lb, 'lb'];
+  return g >= 1000 ? [g / 1000, 'kg'] : [g, 'g'];
+};
+
+// Rescales an amount and re-expresses it in the chosen system. Counts and units such as
+// "cloves" or "cans" have no conversion and are only scaled.
+// A null system keeps the units the recipe was written in.
+export const convertAmount = (quantity: number, unit: string, factor: number, system: UnitSystem | null): [number, string] => {
+  const canonical = canonicalUnit(unit);
+  const scaled = quantity * factor;
+  if (!system) return [scaled, unit];
+  if (ML_PER_UNIT[canonical]) return bestVolume(scaled * ML_PER_UNIT[canonical], system);
+  if (G_PER_UNIT[canonical]) return bestWeight(scaled * G_PER_UNIT[canonical], system);
+  return [scaled, unit];
+};
+
+// Re-expresses an amount in another unit of the same kind ("500 g" as kg); null if they can't be converted
+export const convertUnit = (quantity: number, from: string, to: string): number | null => {
+  const [source, target] = [canonicalUnit(from), canonicalUnit(to)];
+  if (source === target) return quantity;
+  if (ML_PER_UNIT[source] && ML_PER_UNIT[target]) return quantity * ML_PER_UNIT[source] / ML_PER_UNIT[target];
+  if (G_PER_UNIT[source] && G_PER_UNIT[target]) return quantity * G_PER_UNIT[source] / G_PER_UNIT[target];
+  return null;
+};
+
+const PLURAL_UNITS: Record<string, string> = { cup: 'cups', clove: 'cloves', slice: 'slices', can: 'cans', tin: 'tins', sprig: 'sprigs' };
+
+// "1 cup" / "2 cups", "1 clove" / "3 cloves"
+export const displayUnit = (unit: string, quantity: number): string => {
+  const canonical = canonicalUnit(unit);
+  const singular = Object.keys(PLURAL_UNITS).find(s => s === canonical || PLURAL_UNITS[s] === canonical);
+  if (!singular) return unit;
+  return quantity > 1 ? PLURAL_UNITS[singular] : singular;
+};
+
+export const scaleIngredient = (ingredient: Ingredient, factor: number, system: UnitSystem | null): Ingredient => {
+  if (ingredient.quantity === null) return ingredient;
+  const [quantity, unit] = convertAmount(ingredient.quantity, ingredient.unit, factor, system);
+  return { ...ingredient, quantity, unit };
+};
+
+// Rewrites measured amounts inside step text ("Add 200 g rice", "Stir in 1/2 cup stock").
+// Bare numbers are left alone: they are usually times, temperatures or counts of steps.
+const STEP_AMOUNT = new RegExp(
+  `(${AMOUNT_PATTERN})\\s*(fl\\.? oz|cups?|tablespoons?|tbsp|teaspoons?|tsp|kg|g|ml|l|oz|lbs?)\\b`,
+  'gi'
+);
+
+export const scaleStepText = (text: string, factor: number, system: UnitSystem | null): string =>
+  text.replace(STEP_AMOUNT, (_match, amount: string, unit: string) => {
+    const [quantity, nextUnit] = convertAmount(parseAmount(amount), unit, factor, system);
+    return `${formatAmount(quantity, nextUnit)} ${displayUnit(nextUnit, quantity)}`;
+  });
+
+// The recipe as it should be cooked: ingredients, missing items and step text all at the chosen servings and units
+export const scaleRecipe = (recipe: Recipe, servings: number, system: UnitSystem | null): Recipe => {
+  const factor = recipe.servings > 0 ? servings / recipe.servings : 1;
+  if (factor === 1 && !system) return recipe;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map(i => scaleIngredient(i, factor, system)),
+    missingIngredients: recipe.missingIngredients.map(i => scaleIngredient(i, factor, system)),
+    steps: recipe.steps.map(s => scaleStepText(s, factor, system)),
+  };
+};
@@ -0,0 +1,40 @@
+
+import { Recipe } from "../types";
+import { formatIngredient, fuzzyMatchesIngredient } from "./recipes";
+
+// Hands-free commands for cooking mode, recognised from free speech ("okay, next step please")
+export type VoiceCommand =
+  | { type: 'next' }
+  | { type: 'back' }
+  | { type: 'repeat' }
+  | { type: 'startTimer' }
+  | { type: 'stopListening' }
+  | { type: 'quantity'; ingredient: string }
+  | { type: 'unknown'; transcript: string };
+
+// Checked in order: questions and "stop listening" first so "how much is left for the next step" isn't "next"
+const COMMANDS: [RegExp, VoiceCommand['type']][] = [
+  [/\b(stop|turn off|quit) (listening|voice)\b|\bvoice off\b/, 'stopListening'],
+  [/\b(start|set|begin)\b.*\btimers?\b|^timers?$/, 'startTimer'],
+  [/\b(go back|back|previous|last step)\b/, 'back'],
+  [/\b(repeat|again|say that|what was that|read (it|the step))\b/, 'repeat'],
+  [/\b(next|forward|continue|go on|skip)\b/, 'next'],
+];
+
+const QUANTITY = /\bhow (?:much|many)\s+(?:of\s+)?(?:the\s+)?(.+?)(?:\s+(?:do|should|shall|did)\s+i\b.*|\s+(?:in|for|goes in)\s+(?:this|the|it)\b.*|\s+(?:is|are)\s+(?:needed|there)\b.*)?$/;
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand => {
+  const text = transcript.toLowerCase().replace(/[?!.,]/g, '').trim();
+  const question = text.match(QUANTITY);
+  if (question) return { type: 'quantity', ingredient: question[1].replace(/\b(use|need|add)\b/g, '').trim() };
+  const match = COMMANDS.find(([pattern]) => pattern.test(text));
+  return match ? { type: match[1] } as VoiceCommand : { type: 'unknown', transcript };
+};
+
+// Spoken reply to "how much butter?", from the recipe as scaled for the current servings
+export const answerQuantity = (recipe: Recipe, ingredient: string): string => {
+  const match = recipe.ingredients.find(i => fuzzyMatchesIngredient(ingredient, i.name));
+  if (!match) return `This recipe doesn't use ${ingredient}.`;
+  if (match.quantity === null) return `Add ${match.name} to taste.`;
+  return `You need ${formatIngredient(match)}${match.preparation ? `, ${match.preparation}` : ''}.`;
+};
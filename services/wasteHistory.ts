@@ -0,0 +1,174 @@
+
+import { CookedMeal, FridgeItem, Recipe, WasteHistory, WastedItem } from "../types";
+import { Deduction } from "./cooking";
+import { EXPIRY_WARNING_DAYS, daysUntilExpiry, isSameItem } from "./inventory";
+import { convertUnit } from "./units";
+import { scoreRecipeWaste } from "./wasteScore";
+
+// Local log of cooked meals and expired food behind the Impact dashboard.
+// Weights and prices are rough per-category averages: good enough for trends, not for accounting.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Typical weight of one piece/pack and price per kg
+const CATEGORY_ESTIMATES: Record<FridgeItem['category'], { kgPerPiece: number; eurPerKg: number }> = {
+  Produce: { kgPerPiece: 0.2, eurPerKg: 3 },
+  Protein: { kgPerPiece: 0.25, eurPerKg: 12 },
+  Dairy: { kgPerPiece: 0.4, eurPerKg: 6 },
+  Bakery: { kgPerPiece: 0.4, eurPerKg: 5 },
+  Pantry: { kgPerPiece: 0.5, eurPerKg: 4 },
+  Frozen: { kgPerPiece: 0.5, eurPerKg: 6 },
+  Beverages: { kgPerPiece: 1, eurPerKg: 2 },
+  Other: { kgPerPiece: 0.3, eurPerKg: 5 },
+};
+
+export const createWasteHistory = (): WasteHistory => ({ cooked: [], wasted: [] });
+
+// Upgrades whatever is stored under ca_wasteHistory
+export const migrateWasteHistory = (raw: any): WasteHistory => ({
+  cooked: Array.isArray(raw?.cooked) ? raw.cooked.filter((m: any) => typeof m?.cookedAt === 'string' && Array.isArray(m.used)) : [],
+  wasted: Array.isArray(raw?.wasted) ? raw.wasted.filter((w: any) => typeof w?.name === 'string' && typeof w.expiresAt === 'string') : [],
+});
+
+// Weight in kg; liquids count a litre as a kilo, anything else counted in pieces uses the category average
+export const estimateKg = (amount: number, unit: string, category: FridgeItem['category']): number => {
+  const kg = convertUnit(amount, unit, 'kg') ?? convertUnit(amount, unit, 'l');
+  return kg ?? amount * (CATEGORY_ESTIMATES[category] ?? CATEGORY_ESTIMATES.Other).kgPerPiece;
+};
+
+export const estimateEur = (kg: number, category: FridgeItem['category']): number =>
+  kg * (CATEGORY_ESTIMATES[category] ?? CATEGORY_ESTIMATES.Other).eurPerKg;
+
+// --- Recording ---
+
+// Logs a finished meal with its waste score against the inventory before the deductions. Expired items it
+// used after all are taken back off the waste log; an older pack of the same thing that expired stays on it.
+export const recordCookedMeal = (
+  history: WasteHistory,
+  recipe: Recipe,
+  deductions: Deduction[],
+  inventory: FridgeItem[],
+  now: Date = new Date()
+): WasteHistory => {
+  const used = deductions.flatMap(d => {
+    const item = inventory.find(i => isSameItem(i.name, d.itemName));
+    if (!item || d.amount <= 0) return [];
+    return [{ name: item.name, category: item.category, amount: d.amount, unit: d.unit, daysLeft: daysUntilExpiry(item, now), expiresAt: item.expiresAt }];
+  });
+  const meal: CookedMeal = {
+    id: `${recipe.id}-${now.getTime()}`,
+    recipeId: recipe.id,
+    title: recipe.title,
+    cookedAt: now.toISOString(),
+    wasteScore: scoreRecipeWaste(recipe, inventory, now).score,
+    used,
+  };
+  return {
+    cooked: [...history.cooked, meal],
+    wasted: history.wasted.filter(w => !used.some(u => isSameItem(u.name, w.name) && u.expiresAt === w.expiresAt)),
+  };
+};
+
+// Logs inventory items that have passed their expiry date; returns the same object when nothing is new
+export const recordExpired = (history: WasteHistory, inventory: FridgeItem[], now: Date = new Date()): WasteHistory => {
+  const fresh: WastedItem[] = inventory
+    .filter(item => daysUntilExpiry(item, now) < 0)
+    .filter(item => !history.wasted.some(w => isSameItem(w.name, item.name) && w.expiresAt === item.expiresAt))
+    .map(item => ({ name: item.name, category: item.category, quantity: item.quantity, unit: item.unit, expiresAt: item.expiresAt }));
+  return fresh.length === 0 ? history : { ...history, wasted: [...history.wasted, ...fresh] };
+};
+
+// --- Dashboard ---
+
+export interface WeekSummary {
+  weekStart: Date;
+  meals: number;
+  savedKg: number; // Rescued: used within EXPIRY_WARNING_DAYS of expiry
+  savedEur: number;
+  wastedKg: number;
+  wastedEur: number;
+}
+
+const startOfWeek = (date: Date): Date => {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7)); // Weeks start on Monday
+  return day;
+};
+
+// The last `weeks` weeks, oldest first, ending with the current one
+export const summarizeWeeks = (history: WasteHistory, weeks: number, now: Date = new Date()): WeekSummary[] => {
+  const current = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = new Date(current);
+    weekStart.setDate(current.getDate() - 7 * (weeks - 1 - i));
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekStart.getDate() + 7);
+    const inWeek = (iso: string) => {
+      const date = new Date(iso);
+      return date >= weekStart && date < weekEnd;
+    };
+
+    const meals = history.cooked.filter(m => inWeek(m.cookedAt));
+    const rescued = meals.flatMap(m => m.used).filter(u => u.daysLeft <= EXPIRY_WARNING_DAYS);
+    const wasted = history.wasted.filter(w => inWeek(w.expiresAt));
+    const total = (items: { kg: number; category: FridgeItem['category'] }[]) => ({
+      kg: items.reduce((sum, i) => sum + i.kg, 0),
+      eur: items.reduce((sum, i) => sum + estimateEur(i.kg, i.category), 0),
+    });
+    const saved = total(rescued.map(u => ({ kg: estimateKg(u.amount, u.unit, u.category), category: u.category })));
+    const lost = total(wasted.map(w => ({ kg: estimateKg(w.quantity, w.unit, w.category), category: w.category })));
+    return { weekStart, meals: meals.length, savedKg: saved.kg, savedEur: saved.eur, wastedKg: lost.kg, wastedEur: lost.eur };
+  });
+};
+
+export interface CategoryWaste {
+  category: FridgeItem['category'];
+  items: number;
+  kg: number;
+}
+
+export const mostWastedCategories = (history: WasteHistory): CategoryWaste[] =>
+  history.wasted
+    .reduce<CategoryWaste[]>((totals, w) => {
+      const kg = estimateKg(w.quantity, w.unit, w.category);
+      const existing = totals.find(t => t.category === w.category);
+      return existing
+        ? totals.map(t => t === existing ? { ...t, items: t.items + 1, kg: t.kg + kg } : t)
+        : [...totals, { category: w.category, items: 1, kg }];
+    }, [])
+    .sort((a, b) => b.kg - a.kg);
+
+// The local calendar day as a day count; going through UTC keeps clock changes from merging or splitting days
+const dayKey = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+
+// Days in a row with at least one cooked meal; the current streak survives until a whole day is missed
+export const cookingStreak = (history: WasteHistory, now: Date = new Date()): { current: number; best: number } => {
+  const days = [...new Set(history.cooked.map(m => dayKey(new Date(m.cookedAt))))].sort((a, b) => a - b);
+  let best = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && days[i - 1] === day - 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  const today = dayKey(now);
+  const last = days[days.length - 1];
+  return { current: last === today || last === today - 1 ? run : 0, best };
+};
+
+// Whole weeks in a row, counting back from last week, with meals cooked and nothing expired
+export const wasteFreeWeeks = (weeks: WeekSummary[]): number => {
+  let count = 0;
+  for (let i = weeks.length - 2; i >= 0 && weeks[i].meals > 0 && weeks[i].wastedKg === 0; i--) count++;
+  return count;
+};
+
+// Everything, with the estimates alongside, for download as JSON
+export const exportWasteHistory = (history: WasteHistory, now: Date = new Date()): string =>
+  JSON.stringify({
+    exportedAt: now.toISOString(),
+    cooked: history.cooked,
+    wasted: history.wasted.map(w => {
+      const kg = estimateKg(w.quantity, w.unit, w.category);
+      return { ...w, estimatedKg: Math.round(kg * 1000) / 1000, estimatedEur: Math.round(estimateEur(kg, w.category) * 100) / 100 };
+    }),
+  }, null, 2);
@@ -0,0 +1,72 @@
+
+import { FridgeItem, Recipe, WasteScore, WasteScoreEntry } from "../types";
+import { daysUntilExpiry, formatExpiry, normalizeItemName } from "./inventory";
+import { fuzzyMatchesIngredient } from "./recipes";
+
+// Local, deterministic waste-minimisation score.
+// Every inventory item is worth points; items close to expiry are worth far more than long-life staples,
+// so a recipe that uses tomorrow's spinach beats one that uses the salt. The score is the share of
+// points the recipe uses.
+
+// Items with at least this many days left count as long-life and get the base weight
+const URGENCY_HORIZON_DAYS = 14;
+const BASE_WEIGHT = 0.25;
+const MAX_WEIGHT = 5;
+
+export const itemWeight = (daysLeft: number): number => {
+  const urgency = Math.min(1, Math.max(0, 1 - daysLeft / URGENCY_HORIZON_DAYS));
+  return Math.round((BASE_WEIGHT + (MAX_WEIGHT - BASE_WEIGHT) * urgency) * 100) / 100;
+};
+
+const listNames = (names: string[]): string =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+const describeEntry = (entry: WasteScoreEntry) =>
+  entry.daysLeft <= 3 ? `${entry.item} (${formatExpiry(entry.daysLeft).toLowerCase()})` : entry.item;
+
+const buildExplanation = (recipeName: string, breakdown: WasteScoreEntry[]): string => {
+  const used = breakdown.filter(e => e.used);
+  if (used.length === 0) return `${recipeName} doesn't use anything from your fridge.`;
+  const urgentUsed = used.filter(e => e.daysLeft <= 3).slice(0, 2);
+  const urgentLeft = breakdown.filter(e => !e.used && e.daysLeft <= 3).slice(0, 2);
+
+  let text = `Uses ${used.length} of your ${breakdown.length} items`;
+  if (urgentUsed.length > 0) text += `, including ${listNames(urgentUsed.map(describeEntry))}`;
+  text += '.';
+  if (urgentLeft.length > 0) text += ` Still at risk: ${listNames(urgentLeft.map(describeEntry))}.`;
+  return text;
+};
+
+export const scoreRecipeWaste = (recipe: Recipe, inventory: FridgeItem[], now: Date = new Date()): WasteScore => {
+  // One entry per distinct item, most urgent first
+  const seen = new Set<string>();
+  const breakdown: WasteScoreEntry[] = inventory
+    .filter(item => {
+      const key = normalizeItemName(item.name);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(item => {
+      const daysLeft = daysUntilExpiry(item, now);
+      const match = recipe.ingredients.find(ing => fuzzyMatchesIngredient(ing.name, item.name));
+      return {
+        item: item.name,
+        used: !!match,
+        matchedIngredient: match?.name,
+        daysLeft,
+        weight: itemWeight(daysLeft),
+      };
+    })
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+  const total = breakdown.reduce((sum, e) => sum + e.weight, 0);
+  const usedWeight = breakdown.filter(e => e.used).reduce((sum, e) => sum + e.weight, 0);
+
+  return {
+    score: total > 0 ? Math.round((usedWeight / total) * 100) : 0,
+    unused: breakdown.filter(e => !e.used).map(e => e.item),
+    explanation: breakdown.length === 0 ? 'Add items to your inventory to see a waste score.' : buildExplanation(recipe.title, breakdown),
+    breakdown,
+  };
+};
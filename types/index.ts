@@ -1,8 +1,38 @@
 
+export type InventorySource = 'scan' | 'manual' | 'receipt' | 'barcode' | 'shopping';
+
+// Where a scan was taken; a scan only reports items from its own area as missing
+export type ScanArea = 'Fridge' | 'Pantry' | 'Freezer';
+
+// Normalised (0-1) box around a detection in one of the scanned images
+export interface BoundingBox {
+  image: string; // Label of the photo/frame, matches FridgeItem.seenIn
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
 export interface FridgeItem {
   name: string;
   category: 'Produce' | 'Protein' | 'Dairy' | 'Bakery' | 'Pantry' | 'Frozen' | 'Beverages' | 'Other';
-  isPrioritized?: boolean;
+  isPrioritized?: boolean; // Manual override; items close to expiry are prioritised automatically
+  quantity: number;
+  unit: string; // e.g. "pcs", "g", "bag"
+  addedAt: string; // ISO date
+  expiresAt: string; // ISO date, estimated from shelf life unless set explicitly
+  source: InventorySource;
+  allergens?: string[]; // Declared on the package (barcode scans only)
+  seenIn?: string[]; // Labels of the photos/frames a scan detected this item in, e.g. "Photo 2"
+  scanArea?: ScanArea; // Scanned items only; unset on items scanned before areas existed
+  confidence?: number; // 0-1, only present on fresh scan results awaiting review
+  boxes?: BoundingBox[]; // Only present on fresh scan results awaiting review
+}
+
+// One purchase line read from a grocery receipt
+export interface ReceiptLine {
+  raw: string; // Line as printed, e.g. "ORG BNLS CHKN BRST"
+  item: FridgeItem; // Normalised item with source 'receipt'
 }
 
 // Helper to check if an object is a FridgeItem (for migration)
@@ -10,17 +40,25 @@ export const isFridgeItem = (item: any): item is FridgeItem => {
     return typeof item === 'object' && item !== null && 'name' in item && 'category' in item;
 }
 
+// One line of a recipe, e.g. "2 cloves Garlic, crushed"
 export interface Ingredient {
-  name: string;
-  quantity?: string;
+  name: string; // "Garlic"; matched against the inventory by name only
+  quantity: number | null; // null for unmeasured amounts such as "salt to taste"
+  unit: string; // "cloves", "g", "cup"; empty for whole items ("2 Eggs")
+  preparation: string; // "crushed", "diced"; empty if none
+  optional: boolean;
 }
 
+// null keeps the units a recipe was written in
+export type UnitSystem = 'metric' | 'us';
+
 export interface Recipe {
   id: string;
   title: string;
   description: string;
-  ingredients: string[];
-  missingIngredients: string[];
+  servings: number;
+  ingredients: Ingredient[];
+  missingIngredients: Ingredient[]; // Subset of ingredients the user still has to buy
   steps: string[];
   difficulty: 'Easy' | 'Medium' | 'Hard';
   prepTime: string;
@@ -28,10 +66,51 @@ export interface Recipe {
   tags: string[];
 }
 
+export type RecipeSortKey = 'waste' | 'time' | 'missing' | 'calories' | 'difficulty';
+
+// Persisted under ca_recipeSort; null filters are off
+export interface RecipeSortOptions {
+  sortBy: RecipeSortKey;
+  maxMinutes: number | null;
+  difficulty: Recipe['difficulty'] | null;
+  readyOnly: boolean; // hide recipes with missing ingredients
+}
+
+// One line of the shopping list; lines for the same ingredient are merged across recipes.
+// Persisted under ca_shoppingList
+export interface ShoppingItem {
+  name: string;
+  quantity: number | null; // null for unmeasured amounts
+  unit: string;
+  category: FridgeItem['category']; // Used to group the list by store aisle
+  sourceRecipeIds: string[]; // Recipes this line was added for; empty for manual or substitute entries
+  checked: boolean;
+  restocked?: { quantity: number; unit: string }; // What ticking it added to the inventory, taken back on untick
+}
+
+// --- Meal Planning ---
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export interface PlannedMeal {
+  day: number; // 0-6, offset from MealPlan.weekStart
+  slot: MealSlot;
+  recipe: Recipe; // Snapshot, so the plan survives the generated list being remixed
+}
+
+// Persisted under ca_mealPlan
+export interface MealPlan {
+  weekStart: string; // ISO date of the first planned day (local midnight)
+  meals: PlannedMeal[];
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   isError?: boolean;
+  actions?: ProposedAction[]; // Model turns only
+  citations?: SearchResult[]; // Web sources of a search-grounded answer
+  pinned?: boolean; // Model turns only; listed under Pinned in the chat history
 }
 
 export enum DietaryFilter {
@@ -67,8 +146,102 @@ export interface Substitution {
   confidence: number;
 }
 
+// How one inventory item contributed to a recipe's waste score
+export interface WasteScoreEntry {
+  item: string;
+  used: boolean;
+  matchedIngredient?: string; // Recipe ingredient that uses it
+  daysLeft: number;
+  weight: number; // Points the item is worth; items close to expiry are worth more than long-life staples
+}
+
 export interface WasteScore {
   score: number;
   unused: string[];
   explanation: string;
+  breakdown?: WasteScoreEntry[];
+}
+
+// --- Waste History ---
+
+// An inventory item a cooked meal used, as confirmed in "Done cooking"
+export interface UsedItem {
+  name: string;
+  category: FridgeItem['category'];
+  amount: number;
+  unit: string;
+  daysLeft: number; // Until expiry, at cook time; used within EXPIRY_WARNING_DAYS counts as rescued
+  expiresAt?: string; // The item's expiry date, to find it on the waste log; unset on meals logged before it was kept
+}
+
+export interface CookedMeal {
+  id: string;
+  recipeId: string;
+  title: string;
+  cookedAt: string; // ISO date
+  wasteScore: number; // 0-100, against the inventory at cook time
+  used: UsedItem[];
+}
+
+// An inventory item that reached its expiry date without being cooked
+export interface WastedItem {
+  name: string;
+  category: FridgeItem['category'];
+  quantity: number;
+  unit: string;
+  expiresAt: string; // ISO date; with the name, identifies the item so it's only logged once
+}
+
+export interface WasteHistory {
+  cooked: CookedMeal[];
+  wasted: WastedItem[];
+}
+
+// --- Cooking Timers ---
+
+export interface CookingTimer {
+  id: string; // Recipe, step and position in the step, so a chip can't start the same timer twice
+  label: string; // "Simmer · Step 3"
+  durationSec: number;
+  status: 'running' | 'paused' | 'done';
+  endsAt: number | null; // Epoch ms while running
+  remainingSec: number; // Frozen while paused
+}
+
+// --- Assistant Actions ---
+
+// Something the chat or Live assistant proposes to do; shown as a chip and only run once the user confirms
+export type AssistantAction =
+  | { tool: 'addToShoppingList'; items: string[] } // "6 Eggs", "Milk"
+  | { tool: 'removeIngredient'; name: string }
+  | { tool: 'addIngredient'; name: string; quantity?: number; unit?: string }
+  | { tool: 'generateRecipes'; cravings?: Craving[] }
+  | { tool: 'startCookingMode'; recipeTitle: string }
+  | { tool: 'setTimer'; label: string; minutes: number }
+  | { tool: 'saveRecipe'; recipeTitle: string };
+
+// An action as shown in the assistant transcript
+export interface ProposedAction {
+  action: AssistantAction;
+  status: 'pending' | 'done' | 'dismissed' | 'failed';
+  error?: string; // Why it failed, e.g. "No Milk in your inventory"
+}
+
+// --- Assistant Conversations ---
+
+// One chat conversation; persisted under ca_chatThreads
+export interface ChatThread {
+  id: string;
+  title: string; // The first question, shortened
+  createdAt: string; // ISO date
+  updatedAt: string; // ISO date of the last change
+  messages: ChatMessage[];
+}
+
+// An assistant answer saved to a recipe; persisted under ca_recipeNotes, keyed by recipe id
+export interface RecipeNote {
+  id: string;
+  text: string; // Markdown, as the assistant wrote it
+  threadId: string; // Conversation it came from, so it can be reopened
+  createdAt: string; // ISO date
 }